@@ -0,0 +1,133 @@
+import { Root } from "mdast";
+import { visit } from "unist-util-visit";
+
+/**
+ * Text that replaces names removed from an anonymous manuscript's body.
+ */
+export const REMOVED_NAME_TEXT = "[name removed]";
+
+/**
+ * Number of characters to show on either side of a name in a report.
+ */
+const contextLength = 30;
+
+/**
+ * A name found in a manuscript's text.
+ */
+export interface NameMatch {
+    /**
+     * Name as it appears in the text.
+     */
+    name: string;
+    /**
+     * Text surrounding the name.
+     */
+    context: string;
+}
+
+/**
+ * Make a regular expression that matches any of a list of names.
+ *
+ * Names match without regard to case, only as whole words, and with any
+ * whitespace, dashes, underscores or periods between their words.
+ *
+ * @param names Names to match.
+ * @returns The regular expression, or undefined if there are no names.
+ */
+function createNamesRegExp(names: readonly string[]): RegExp | undefined {
+    const alternatives = names
+        .map((name) => name.trim())
+        .filter(Boolean)
+        // Try longer names first so "Jane Smith" matches before "Jane"
+        .sort((a, b) => b.length - a.length)
+        .map((name) =>
+            name
+                .split(/\s+/)
+                .map((word) => word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+                .join("[\\s\\-_.]+")
+        );
+    if (alternatives.length === 0) return undefined;
+    return new RegExp(
+        `(?<![\\p{L}\\p{N}])(?:${alternatives.join("|")})(?![\\p{L}\\p{N}])`,
+        "giu"
+    );
+}
+
+/**
+ * Find names in a manuscript's text.
+ *
+ * @param tree Manuscript's Markdown AST.
+ * @param names Names to look for, such as the author's name and pseudonyms.
+ * @returns Every place one of the names appears, in order.
+ */
+export function findNames(tree: Root, names: readonly string[]): NameMatch[] {
+    const regExp = createNamesRegExp(names);
+    const matches: NameMatch[] = [];
+    if (regExp === undefined) return matches;
+
+    visit(tree, "text", (node) => {
+        for (const match of node.value.matchAll(regExp)) {
+            const start = match.index ?? 0;
+            const end = start + match[0].length;
+            const before = node.value.slice(
+                Math.max(start - contextLength, 0),
+                start
+            );
+            const after = node.value.slice(end, end + contextLength);
+            matches.push({
+                name: match[0],
+                context:
+                    (start > contextLength ? "..." : "") +
+                    before +
+                    match[0] +
+                    after +
+                    (end + contextLength < node.value.length ? "..." : ""),
+            });
+        }
+    });
+    return matches;
+}
+
+/**
+ * Replace names in a manuscript's text.
+ *
+ * @param tree Manuscript's Markdown AST. It's modified in place.
+ * @param names Names to remove.
+ * @param replacement Text to replace each name with.
+ */
+export function removeNames(
+    tree: Root,
+    names: readonly string[],
+    replacement = REMOVED_NAME_TEXT
+) {
+    const regExp = createNamesRegExp(names);
+    if (regExp === undefined) return;
+
+    visit(tree, "text", (node) => {
+        node.value = node.value.replace(regExp, replacement);
+    });
+}
+
+/**
+ * Remove names from a filename, along with any separators they leave behind.
+ *
+ * @param filename Filename, such as `smith-my-story.docx`.
+ * @param names Names to remove.
+ * @returns The filename without the names, such as `my-story.docx`.
+ */
+export function removeNamesFromFilename(
+    filename: string,
+    names: readonly string[]
+): string {
+    const regExp = createNamesRegExp(names);
+    if (regExp === undefined) return filename;
+
+    const extensionStart = filename.lastIndexOf(".");
+    const extension = extensionStart > 0 ? filename.slice(extensionStart) : "";
+    const base = filename
+        .slice(0, filename.length - extension.length)
+        .replace(regExp, "")
+        .replace(/([\s\-_.])[\s\-_.]+/g, "$1")
+        .replace(/^[\s\-_.]+|[\s\-_.]+$/g, "");
+    return (base === "" ? "manuscript" : base) + extension;
+}
@@ -1,4 +1,4 @@
-import { Root } from "mdast";
+import { Data, Heading, Parent, Root, RootContent, Text } from "mdast";
 import { FrontMatterCache } from "obsidian";
 import remarkFrontmatter from "remark-frontmatter";
 import remarkGfm from "remark-gfm";
@@ -6,6 +6,20 @@ import remarkParse from "remark-parse";
 import { unified } from "unified";
 import { visit } from "unist-util-visit";
 
+import {
+    METADATA_PROPERTY_KEYS,
+    MetadataPropertyKey,
+    parseMetadataProperty,
+    STORY_PROPERTY_KEYS,
+} from "./properties";
+import { globToRegExp } from "./utilities";
+import {
+    countWords,
+    DEFAULT_WORD_COUNT_OPTIONS,
+    NoteWordCount,
+    WordCountOptions,
+} from "./wordCount";
+
 /**
  * Manuscript file's metadata.
  */
@@ -14,6 +28,10 @@ export interface ManuscriptMetadata {
      * Title of the story.
      */
     title: string;
+    /**
+     * Shortened title to use in the running header, or undefined to use the title.
+     */
+    shorttitle?: string;
     /**
      * Output filename to save the manuscript to.
      */
@@ -38,6 +56,91 @@ export interface ManuscriptMetadata {
      * Number of words in the manuscript, or undefined if not known.
      */
     wordcount?: number;
+    /**
+     * Name of the format profile to use, or undefined to use the default one.
+     */
+    profile?: string;
+    /**
+     * Whether to always anonymize the manuscript, or undefined to leave it
+     * to the export command.
+     */
+    anonymous?: boolean;
+    /**
+     * Text to put after the manuscript's last line, blank for none, or
+     * undefined to use the format profile's.
+     */
+    endmarker?: string;
+    /**
+     * Manuscript's language as a BCP 47 tag, such as `ja`, or undefined
+     * to use the default one.
+     */
+    lang?: string;
+    /**
+     * Story's genre.
+     */
+    genre?: string;
+    /**
+     * Short description of the story.
+     */
+    description?: string;
+    /**
+     * Rights offered for the story, such as "First North American Serial Rights".
+     */
+    rights?: string[];
+    /**
+     * Prior publication credit for a reprint, such as "First published in
+     * Analog, May 2021".
+     */
+    reprint?: string;
+    /**
+     * Content warnings for the story.
+     */
+    contentwarnings?: string[];
+    /**
+     * Tags from the notes' properties, without their leading `#`.
+     */
+    tags?: string[];
+    /**
+     * Extra document properties for the docx file, keyed by name.
+     */
+    docproperties?: Record<string, string>;
+}
+
+/**
+ * Where each of a manuscript's metadata values came from, such as
+ * `settings` or the path of the note that set it.
+ */
+export type MetadataSources = Partial<Record<keyof ManuscriptMetadata, string>>;
+
+/**
+ * Note that holds a story's or a folder of stories' manuscript properties,
+ * such as `_manuscript.md` or a folder note.
+ */
+export interface MetadataNote {
+    /**
+     * Note's path, which is shown as the source of the values it sets.
+     */
+    path: string;
+    /**
+     * Note's frontmatter.
+     */
+    frontmatter?: FrontMatterCache;
+}
+
+/**
+ * Metadata notes that a story's manuscript properties cascade from.
+ */
+export interface MetadataNotes {
+    /**
+     * Metadata notes of the folders that contain the story folder,
+     * outermost first.
+     */
+    folderNotes: MetadataNote[];
+    /**
+     * Story folder's own metadata note, or undefined if it doesn't have
+     * one. If it has one, properties on the story's other notes are ignored.
+     */
+    storyNote?: MetadataNote;
 }
 
 /**
@@ -56,90 +159,808 @@ export interface NoteInformation {
      * Any frontmatter associated with the note.
      */
     frontmatter?: FrontMatterCache;
+    /**
+     * Names of the subfolders between the story folder and the note,
+     * outermost first. Empty or undefined if the note is directly in
+     * the story folder.
+     */
+    folders?: string[];
+    /**
+     * Tags in the note's properties and text.
+     */
+    tags?: string[];
+}
+
+/**
+ * How to handle Obsidian highlights (`==text==`).
+ */
+export const HighlightRule = {
+    /**
+     * Keep the highlighted text but not the highlighting.
+     */
+    KeepText: "keepText",
+    /**
+     * Keep the highlighted text and highlight it in the manuscript.
+     */
+    Highlight: "highlight",
+    /**
+     * Remove the highlighted text.
+     */
+    Remove: "remove",
+} as const;
+
+export type HighlightRuleType =
+    (typeof HighlightRule)[keyof typeof HighlightRule];
+
+/**
+ * How to handle Obsidian inline tags (`#tag`).
+ */
+export const TagRule = {
+    /**
+     * Remove the tag.
+     */
+    Remove: "remove",
+    /**
+     * Keep the tag's text without the leading `#`.
+     */
+    KeepText: "keepText",
+    /**
+     * Keep the tag as-is.
+     */
+    Keep: "keep",
+} as const;
+
+export type TagRuleType = (typeof TagRule)[keyof typeof TagRule];
+
+/**
+ * Rules for leaving notes out of the manuscript.
+ */
+export interface ExclusionRules {
+    /**
+     * Tags (without their `#`) that leave a note out. Nested tags are
+     * left out along with their parents.
+     */
+    tags: string[];
+    /**
+     * Glob patterns for the names of notes to leave out.
+     */
+    names: string[];
+    /**
+     * Glob patterns for the names of subfolders whose notes are left out.
+     */
+    folders: string[];
+}
+
+/**
+ * Options for converting Obsidian notes to a manuscript.
+ */
+export interface ConversionOptions {
+    /**
+     * How to handle highlights.
+     */
+    highlights: HighlightRuleType;
+    /**
+     * How to handle inline tags.
+     */
+    tags: TagRuleType;
+    /**
+     * How to count words.
+     */
+    wordCount: WordCountOptions;
+    /**
+     * Which notes to leave out of the manuscript.
+     */
+    exclusions: ExclusionRules;
+}
+
+export const DEFAULT_CONVERSION_OPTIONS: ConversionOptions = {
+    highlights: HighlightRule.KeepText,
+    tags: TagRule.Remove,
+    wordCount: DEFAULT_WORD_COUNT_OPTIONS,
+    exclusions: { tags: [], names: [], folders: [] },
+};
+
+/**
+ * Note (or part of a note) that's the target of an Obsidian embed.
+ */
+export interface EmbedTarget {
+    /**
+     * Path that uniquely identifies the embedded content, such as
+     * `Drafts/Scene 3.md` or `Drafts/Scene 3.md#Opening`.
+     */
+    path: string;
+    /**
+     * Markdown content being embedded.
+     */
+    content: string;
+}
+
+/**
+ * Function that finds the target of an Obsidian embed.
+ *
+ * @param link Embed's link text, such as `Scene 3` or `Draft#Opening`.
+ * @param sourcePath Path of the note that contains the embed.
+ * @returns The embed's target, or undefined if it couldn't be found.
+ */
+export type EmbedResolver = (
+    link: string,
+    sourcePath: string
+) => Promise<EmbedTarget | undefined>;
+
+/**
+ * Replace Obsidian embeds (`![[note]]`, `![[note#heading]]`, `![[note#^block]]`)
+ * with the content they embed.
+ *
+ * Embeds are resolved recursively. Embeds that can't be found, that aren't
+ * notes, or that would embed themselves are left out and reported. Embeds
+ * in code are left alone, and an embed in a block quote, callout or list
+ * has its content's lines continued inside that block.
+ *
+ * @param content Note's Markdown content.
+ * @param sourcePath Path of the note.
+ * @param resolver Function that finds embeds' targets.
+ * @param notices Array to add notices to show to the user to.
+ * @param ancestors Paths of the notes that led to this one (used when recursing).
+ * @returns The content with its embeds replaced.
+ */
+export async function resolveEmbeds(
+    content: string,
+    sourcePath: string,
+    resolver: EmbedResolver,
+    notices: string[],
+    ancestors: string[] = [sourcePath]
+): Promise<string> {
+    const embedRegex = /!\[\[([^\]|]+)(?:\|[^\]]*)?\]\]/g;
+    const codeRanges = findCodeRanges(content);
+
+    const pieces: string[] = [];
+    let lastIndex = 0;
+    for (const match of content.matchAll(embedRegex)) {
+        const index = match.index ?? 0;
+        if (codeRanges.some(([start, end]) => index >= start && index < end)) {
+            continue;
+        }
+        pieces.push(content.slice(lastIndex, match.index));
+        lastIndex = (match.index ?? 0) + match[0].length;
+
+        const link = match[1].trim();
+        const extension = /\.([^./#]+)(?:#.*)?$/.exec(link)?.[1];
+        if (extension !== undefined && extension.toLowerCase() !== "md") {
+            notices.push(
+                `Can't include embedded file ${link} from ${sourcePath} in the manuscript. Leaving it out.`
+            );
+            continue;
+        }
+
+        const target = await resolver(link, sourcePath);
+        if (target === undefined) {
+            notices.push(
+                `Couldn't find embedded note ${link} in ${sourcePath}. Leaving it out.`
+            );
+            continue;
+        }
+        if (ancestors.includes(target.path)) {
+            notices.push(
+                `Embedded note ${link} in ${sourcePath} embeds itself: ${[...ancestors, target.path].join(" -> ")}. Leaving it out.`
+            );
+            continue;
+        }
+
+        const embedded = await resolveEmbeds(
+            stripFrontmatter(target.content),
+            target.path,
+            resolver,
+            notices,
+            [...ancestors, target.path]
+        );
+        const lineStart = content.lastIndexOf("\n", index - 1) + 1;
+        const prefix = continuationPrefix(content.slice(lineStart, index));
+        pieces.push(
+            prefix === ""
+                ? embedded
+                : embedded.replace(/\s+$/, "").replace(/\n/g, `\n${prefix}`)
+        );
+    }
+    pieces.push(content.slice(lastIndex));
+
+    return pieces.join("");
+}
+
+/**
+ * Find where a note's code blocks and code spans are.
+ * @param content Note's Markdown content.
+ * @returns The start and end offsets of each piece of code.
+ */
+function findCodeRanges(content: string): [number, number][] {
+    const tree = unified()
+        .use(remarkParse)
+        .use(remarkGfm)
+        .use(remarkFrontmatter)
+        .parse(content);
+    const ranges: [number, number][] = [];
+    visit(tree, (node) => {
+        if (node.type !== "code" && node.type !== "inlineCode") return;
+        const { start, end } = node.position ?? {};
+        if (start?.offset !== undefined && end?.offset !== undefined) {
+            ranges.push([start.offset, end.offset]);
+        }
+    });
+    return ranges;
+}
+
+/**
+ * Get the prefix that continues a line's block quotes, callouts and list
+ * items on the lines after it.
+ * @param linePrefix Start of the line, up to an embed, such as `> - `.
+ * @returns The prefix for the following lines, such as `>   `.
+ */
+function continuationPrefix(linePrefix: string): string {
+    const containers =
+        /^(?:[ \t]*(?:>|[-*+](?=[ \t])|\d{1,9}[.)](?=[ \t]))[ \t]?)*/.exec(
+            linePrefix
+        )?.[0] ?? "";
+    // List items continue with their content's indent rather than their marker
+    return containers.replace(/[-*+]|\d{1,9}[.)]/g, (marker) =>
+        " ".repeat(marker.length)
+    );
+}
+
+/**
+ * Remove YAML frontmatter from the start of a note's content.
+ * @param content Note's Markdown content.
+ * @returns The content without any frontmatter.
+ */
+function stripFrontmatter(content: string): string {
+    return content.replace(/^---\r?\n[\s\S]*?\r?\n---(?:\r?\n|$)/, "");
+}
+
+/**
+ * Remove Obsidian comments (`%% comment %%`) from a note's content.
+ * @param content Note's Markdown content.
+ * @returns The content without any comments.
+ */
+function stripObsidianComments(content: string): string {
+    return content.replace(/%%[\s\S]*?%%/g, "");
+}
+
+/**
+ * Get the text Obsidian displays for a wikilink without display text.
+ * @param target Link's target, such as `Note` or `Folder/Note#Heading`.
+ * @returns The display text, such as `Note` or `Note > Heading`.
+ */
+function wikilinkDisplayText(target: string): string {
+    const [path, ...subpaths] = target.split("#");
+    const name = path.split("/").pop() ?? "";
+    return [name, ...subpaths.map((p) => p.replace(/^\^/, ""))]
+        .filter(Boolean)
+        .join(" > ");
+}
+
+/**
+ * Apply a highlight rule to the children of a node.
+ *
+ * Highlights can span several children, such as `==some *emphasized* text==`,
+ * so the highlight markers are tracked across the node's text children.
+ *
+ * @param parent Node whose children to change.
+ * @param rule How to handle highlights.
+ */
+function transformHighlights(parent: Parent, rule: HighlightRuleType) {
+    const isText = (node: RootContent) => node.type === "text";
+    // Only handle matched pairs of markers
+    const markerCount = parent.children
+        .filter(isText)
+        .reduce(
+            (count, node) =>
+                count + (node as Text).value.split("==").length - 1,
+            0
+        );
+    const pairedMarkers = markerCount - (markerCount % 2);
+    if (pairedMarkers === 0) return;
+
+    let markersSeen = 0;
+    let inHighlight = false;
+    const children: RootContent[] = [];
+    const addChild = (node: RootContent) => {
+        if (!inHighlight || rule === HighlightRule.KeepText) {
+            children.push(node);
+        } else if (rule === HighlightRule.Highlight) {
+            // mdast2docx applies a node's data to its docx run options
+            node.data = { ...node.data, highlight: "yellow" } as Data;
+            children.push(node);
+        }
+    };
+    for (const child of parent.children) {
+        if (child.type !== "text") {
+            addChild(child);
+            continue;
+        }
+        const pieces = child.value.split("==");
+        let text = pieces[0];
+        for (const piece of pieces.slice(1)) {
+            if (markersSeen < pairedMarkers) {
+                if (text !== "") addChild({ type: "text", value: text });
+                inHighlight = !inHighlight;
+                ++markersSeen;
+                text = piece;
+            } else {
+                text += "==" + piece;
+            }
+        }
+        if (text !== "") addChild({ type: "text", value: text });
+    }
+    parent.children = children;
+}
+
+/**
+ * Convert or remove Obsidian-only syntax that survives Markdown parsing:
+ * wikilinks, block IDs, highlights and inline tags.
+ * @param tree Markdown AST to change.
+ * @param options Conversion options.
+ */
+function transformObsidianSyntax(tree: Root, options: ConversionOptions) {
+    visit(tree, (node) => {
+        if ("children" in node) {
+            transformHighlights(node as Parent, options.highlights);
+        }
+    });
+
+    visit(tree, "text", (node, index, parent) => {
+        let value = node.value
+            // [[target|display text]] -> display text
+            .replace(
+                /(?<!!)\[\[([^\]|]+)(?:\|([^\]]*))?\]\]/g,
+                (_, target: string, display?: string) =>
+                    display ?? wikilinkDisplayText(target)
+            )
+            // Block IDs at the end of a line
+            .replace(/(^|[ \t]+)\^[A-Za-z0-9-]+[ \t]*$/gm, "");
+        if (options.tags !== TagRule.Keep) {
+            value = value.replace(
+                /(^|\s)#([\p{L}\p{N}_/-]*[\p{L}_/-][\p{L}\p{N}_/-]*)/gu,
+                options.tags === TagRule.KeepText ? "$1$2" : "$1"
+            );
+        }
+        // Don't leave whitespace dangling at the end of a block
+        if (parent !== undefined && index === parent.children.length - 1) {
+            value = value.trimEnd();
+        }
+        node.value = value;
+    });
+
+    // Remove any paragraphs that are now empty, such as ones that only held tags
+    visit(tree, "paragraph", (node, index, parent) => {
+        const isEmpty = node.children.every(
+            (child) => child.type === "text" && child.value.trim() === ""
+        );
+        if (isEmpty && parent !== undefined && index !== undefined) {
+            parent.children.splice(index, 1);
+            return index;
+        }
+    });
+}
+
+/**
+ * Give a note's footnotes identifiers that no other note's footnotes have,
+ * as every note can number its footnotes from 1.
+ * @param tree Note's Markdown AST.
+ * @param prefix Prefix that's unique to the note.
+ */
+function namespaceFootnotes(tree: Root, prefix: string) {
+    visit(tree, (node) => {
+        if (
+            node.type === "footnoteReference" ||
+            node.type === "footnoteDefinition"
+        ) {
+            node.label = `${prefix}-${node.label ?? node.identifier}`;
+            node.identifier = `${prefix}-${node.identifier}`;
+        }
+    });
+}
+
+/**
+ * Create a part or chapter heading node.
+ * @param depth Heading depth (1 for parts, 2 for chapters).
+ * @param text Heading's text.
+ * @returns The heading node.
+ */
+function createHeading(depth: 1 | 2, text: string): Heading {
+    return {
+        type: "heading",
+        depth: depth,
+        children: [{ type: "text", value: text }],
+    };
+}
+
+/**
+ * Find out why a note should be left out of the manuscript.
+ *
+ * A note is left out if its `manuscript` property is false, if it has one
+ * of the excluded tags, or if its name or one of its subfolders' names
+ * matches one of the excluded patterns.
+ *
+ * @param info Information about the note.
+ * @param rules Exclusion rules.
+ * @returns Why the note is left out, or undefined if it isn't.
+ */
+export function findExclusionReason(
+    info: NoteInformation,
+    rules: ExclusionRules
+): string | undefined {
+    if (info.frontmatter?.manuscript === false) {
+        return "manuscript: false";
+    }
+
+    const noteTags = (info.tags ?? []).map((tag) =>
+        tag.replace(/^#/, "").toLocaleLowerCase()
+    );
+    for (const tag of rules.tags) {
+        const lowerTag = tag.trim().replace(/^#/, "").toLocaleLowerCase();
+        if (
+            lowerTag !== "" &&
+            noteTags.some((t) => t === lowerTag || t.startsWith(`${lowerTag}/`))
+        ) {
+            return `tagged #${tag.trim().replace(/^#/, "")}`;
+        }
+    }
+
+    const basename = info.name.replace(/\.md$/, "");
+    for (const pattern of rules.names) {
+        if (
+            pattern.trim() !== "" &&
+            globToRegExp(pattern.trim()).test(basename)
+        ) {
+            return `name matches ${pattern.trim()}`;
+        }
+    }
+
+    for (const pattern of rules.folders) {
+        if (pattern.trim() === "") continue;
+        const regExp = globToRegExp(pattern.trim());
+        const folder = info.folders?.find((f) => regExp.test(f));
+        if (folder !== undefined) {
+            return `in subfolder ${folder}`;
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Set a manuscript's metadata from a note's properties.
+ *
+ * Each property's value is checked against its type, and properties with
+ * the wrong type are ignored with a notice. Tags and document properties
+ * are combined with the ones already set. Other values replace the ones
+ * already set.
+ *
+ * @param metadata Manuscript metadata to change.
+ * @param frontmatter Note's properties.
+ * @param source Name or path of the note, for notices and sources.
+ * @param sources Where each metadata value came from, which is updated
+ *                with the values the note sets.
+ * @param notices Array to add notices about invalid properties to.
+ * @param keys Properties the note can set. Defaults to all of them.
+ * @returns The metadata keys the note set.
+ */
+function applyNoteProperties(
+    metadata: ManuscriptMetadata,
+    frontmatter: FrontMatterCache,
+    source: string,
+    sources: MetadataSources,
+    notices: string[],
+    keys: readonly MetadataPropertyKey[] = METADATA_PROPERTY_KEYS
+): (keyof ManuscriptMetadata)[] {
+    const setKeys: (keyof ManuscriptMetadata)[] = [];
+
+    for (const k of keys) {
+        const val: unknown = frontmatter[k];
+        // Empty properties are left unset
+        if (val === undefined || val === null) continue;
+
+        const result = parseMetadataProperty(k, val);
+        if ("problem" in result) {
+            notices.push(
+                `${k} property on note ${source} ${result.problem}. Ignoring.`
+            );
+            continue;
+        }
+
+        if (k === "tags" || k === "docproperties") {
+            // Tags and document properties from every note are combined,
+            // so they can come from more than one note
+            if (k === "tags") {
+                const tags = result.value as string[];
+                if (tags.length === 0) continue;
+                metadata.tags = [
+                    ...new Set([...(metadata.tags ?? []), ...tags]),
+                ];
+            } else {
+                const docProps = result.value as Record<string, string>;
+                if (Object.keys(docProps).length === 0) continue;
+                metadata.docproperties = {
+                    ...metadata.docproperties,
+                    ...docProps,
+                };
+            }
+            const previous = sources[k]?.split(", ") ?? [];
+            sources[k] = [...new Set([...previous, source])].join(", ");
+        } else {
+            Object.assign(metadata, { [k]: result.value });
+            sources[k] = source;
+        }
+        setKeys.push(k);
+    }
+
+    return setKeys;
+}
+
+/**
+ * Describe where a manuscript's metadata values came from, for showing
+ * to the user.
+ *
+ * @param metadata Manuscript metadata.
+ * @param sources Where each metadata value came from.
+ * @returns The description, one line per value after the first line.
+ */
+export function describeMetadataSources(
+    metadata: ManuscriptMetadata,
+    sources: MetadataSources
+): string {
+    const lines = ["Manuscript properties:"];
+    for (const k of METADATA_PROPERTY_KEYS) {
+        const source = sources[k];
+        const value = metadata[k];
+        if (source === undefined || value === undefined) continue;
+
+        let text: string;
+        if (Array.isArray(value)) {
+            text = value.join(", ");
+        } else if (typeof value === "object") {
+            text = Object.entries(value)
+                .map(([name, val]) => `${name}: ${val}`)
+                .join("; ");
+        } else if (value === "") {
+            text = "(none)";
+        } else {
+            text = `${value}`;
+        }
+        lines.push(`${k}: ${text} (from ${source})`);
+    }
+    return lines.join("\n");
 }
 
 /**
  * Create Markdown AST from Obsidian notes.
  *
- * Notes' properties can overwrite the existing manuscript metadata if they're non-blank.
+ * Metadata cascades from the existing manuscript metadata (such as the
+ * plugin's settings) to the metadata notes of the folders that contain the
+ * story, and then to the story's own metadata note. Non-blank properties
+ * on later notes overwrite earlier ones. If the story doesn't have its
+ * own metadata note, any of its notes' properties can overwrite the
+ * metadata instead.
+ *
+ * Obsidian comments, block IDs and wikilinks are removed or converted,
+ * and highlights and tags are handled according to the conversion options.
+ *
+ * Notes in subfolders of the story folder are grouped into chapters, with
+ * the subfolder's name as the chapter heading. If any notes are nested two
+ * subfolders deep, the outer subfolders become parts and the inner ones
+ * chapters. Scene breaks are only put between notes in the same chapter,
+ * and before a note outside the subfolders that follows a chapter.
+ *
+ * A note's `wordcount` property overrides the counted number of words.
+ *
+ * Notes that the exclusion rules leave out can still set the manuscript's
+ * metadata, but their text isn't included.
  *
  * @param notesInfo Info about Obsidian notes.
  * @param metadata Manuscript metadata.
- * @returns Tuple of Markdown AST corresponding to the notes and array of notices to show to the user (if any).
+ * @param options Conversion options.
+ * @param metadataNotes Metadata notes that the metadata cascades from.
+ * @param sources Where each metadata value came from, which is updated
+ *                with the values the notes set.
+ * @returns Tuple of Markdown AST corresponding to the notes, array of notices to show to the user (if any), and the number of words in each note.
  */
 export function obsidianNotesToAST(
     notesInfo: NoteInformation[],
-    metadata: ManuscriptMetadata
-): [Root, string[]] {
+    metadata: ManuscriptMetadata,
+    options: ConversionOptions = DEFAULT_CONVERSION_OPTIONS,
+    metadataNotes: MetadataNotes = { folderNotes: [] },
+    sources: MetadataSources = {}
+): [Root, string[], NoteWordCount[]] {
     const pipeline = unified()
         .use(remarkParse)
         .use(remarkGfm)
         .use(remarkFrontmatter);
     const notices: string[] = [];
 
-    const origMetadata = { ...metadata };
-    metadata.wordcount = 0;
+    const noteTrees: [string, Root][] = [];
+    let hasWordcountProperty = false;
+
+    const { folderNotes, storyNote } = metadataNotes;
+    for (const note of [...folderNotes, storyNote]) {
+        if (note?.frontmatter === undefined || note.frontmatter === null) {
+            continue;
+        }
+        let keys = METADATA_PROPERTY_KEYS as readonly MetadataPropertyKey[];
+        if (note !== storyNote) {
+            // A folder's properties apply to every story in it, so they
+            // can't set a single story's title or word count
+            const frontmatter = note.frontmatter;
+            const storyKeys = STORY_PROPERTY_KEYS.filter(
+                (k) => frontmatter[k] !== undefined
+            );
+            if (storyKeys.length !== 0) {
+                notices.push(
+                    `Ignored properties on ${note.path} that only apply to a single story: ${storyKeys.join(", ")}`
+                );
+            }
+            keys = keys.filter((k) => !STORY_PROPERTY_KEYS.includes(k));
+        }
+        const setKeys = applyNoteProperties(
+            metadata,
+            note.frontmatter,
+            note.path,
+            sources,
+            notices,
+            keys
+        );
+        hasWordcountProperty ||= setKeys.includes("wordcount");
+    }
+    const notesSettingMetadata = new Set<string>();
+    const ignoredProperties: string[] = [];
+
+    const exclusionReasons = notesInfo.map((info) =>
+        findExclusionReason(info, options.exclusions)
+    );
+    const skipped: string[] = [];
+
+    // If any notes are two or more subfolders deep, the outermost
+    // subfolders are parts. Otherwise they're chapters.
+    const maxFolderDepth = Math.max(
+        0,
+        ...notesInfo
+            .filter((_, ndx) => exclusionReasons[ndx] === undefined)
+            .map((info) => info.folders?.length ?? 0)
+    );
+    const hasParts = maxFolderDepth >= 2;
+    const structureLevels = hasParts ? 2 : maxFolderDepth;
+    let prevStructure: string[] | undefined;
 
     let tree: Root = { type: "root", children: [] };
-    for (const info of notesInfo) {
+    for (const [ndx, info] of notesInfo.entries()) {
         // Check if the note has properties that overwrite the existing settings
         if (info.frontmatter !== null && info.frontmatter !== undefined) {
-            const redefinedProps = [];
-
-            for (const k of [
-                "title",
-                "filename",
-                "outdir",
-                "author",
-                "surname",
-                "contact",
-                // Set only string properties in this!
-            ] as Array<keyof ManuscriptMetadata>) {
-                const val = info.frontmatter![k] as string;
-                if (val !== undefined) {
-                    // Don't allow blank metadata
-                    if (val.trim() === "") {
-                        notices.push(
-                            `${k} property on note ${info.name} is blank. Ignoring.`
-                        );
-                        continue;
-                    }
-
-                    // Warn if we re-define metadata
-                    if (metadata[k] !== origMetadata[k]) {
-                        redefinedProps.push(k);
-                    }
-                    (metadata[k] as string) = val; // Trust that we're only setting string properties
+            if (storyNote !== undefined) {
+                // The story's metadata note is the only place its
+                // properties can be set
+                const keys = METADATA_PROPERTY_KEYS.filter(
+                    (k) => info.frontmatter![k] !== undefined
+                );
+                if (keys.length !== 0) {
+                    ignoredProperties.push(`${info.name} (${keys.join(", ")})`);
                 }
-            }
+            } else {
+                const setKeys = applyNoteProperties(
+                    metadata,
+                    info.frontmatter,
+                    info.name,
+                    sources,
+                    notices
+                );
+                hasWordcountProperty ||= setKeys.includes("wordcount");
 
-            if (redefinedProps.length !== 0) {
-                notices.push(
-                    `Note ${info.name} re-defined the following properties: ${redefinedProps.join(", ")}`
+                // Warn if we re-define metadata
+                const redefinedProps = setKeys.filter(
+                    (k) =>
+                        !["tags", "docproperties"].includes(k) &&
+                        notesSettingMetadata.has(k)
                 );
+                setKeys.forEach((k) => notesSettingMetadata.add(k));
+                if (redefinedProps.length !== 0) {
+                    notices.push(
+                        `Note ${info.name} re-defined the following properties: ${redefinedProps.join(", ")}`
+                    );
+                }
             }
         }
 
+        // Excluded notes only supply metadata
+        const exclusionReason = exclusionReasons[ndx];
+        if (exclusionReason !== undefined) {
+            skipped.push(`${info.name} (${exclusionReason})`);
+            continue;
+        }
+
         // Turn markdown content into an AST
-        const subTree = pipeline.parse(info.content);
+        const subTree = pipeline.parse(stripObsidianComments(info.content));
+        transformObsidianSyntax(subTree, options);
+        namespaceFootnotes(subTree, `${ndx}`);
 
-        // Count words by visiting every text node
-        let count = 0;
-        visit(subTree, "text", (node) => {
-            const words = node.value.trim().split(/\s+/).filter(Boolean);
-            count += words.length;
-        });
-        metadata.wordcount += count;
+        // Count once all the notes' properties are known, as a later
+        // note can set the manuscript's language. The first note's tree
+        // becomes the manuscript's, so count a copy.
+        noteTrees.push([
+            info.name,
+            { ...subTree, children: [...subTree.children] },
+        ]);
 
         subTree.children = subTree.children.filter(
             (node) => node.type !== "yaml"
         );
+
+        // Start new parts and chapters as the notes' subfolders change
+        const structure = (info.folders ?? []).slice(0, structureLevels);
+        const headings: Heading[] = [];
+        for (let level = 0; level < structure.length; ++level) {
+            // Once we've started a new part, we start a new chapter as well
+            if (
+                headings.length > 0 ||
+                structure[level] !== prevStructure?.[level]
+            ) {
+                headings.push(
+                    createHeading(
+                        hasParts && level === 0 ? 1 : 2,
+                        structure[level]
+                    )
+                );
+            }
+        }
+        const sameChapter =
+            prevStructure !== undefined &&
+            structure.length === prevStructure.length &&
+            structure.every((name, ndx) => name === prevStructure?.[ndx]);
+        // A note outside the subfolders, such as an epilogue after the
+        // last chapter, needs a break so it doesn't run into the chapter
+        const needsBreak =
+            prevStructure !== undefined &&
+            (sameChapter || structure.length === 0);
+        prevStructure = structure;
+
         if (tree.children.length === 0) {
             tree = subTree;
+            tree.children.unshift(...headings);
         } else {
-            tree.children.push({ type: "thematicBreak" }, ...subTree.children);
+            // A note that starts with a part or chapter heading doesn't
+            // need a scene break before it, and neither does a note
+            // that starts a new chapter
+            const firstNode = subTree.children[0];
+            if (
+                needsBreak &&
+                (firstNode?.type !== "heading" || firstNode.depth > 2)
+            ) {
+                tree.children.push({ type: "thematicBreak" });
+            }
+            tree.children.push(...headings, ...subTree.children);
         }
     }
 
-    return [tree, notices];
+    if (ignoredProperties.length !== 0) {
+        notices.push(
+            `Ignored properties on these notes, as ${storyNote?.path} sets the manuscript's properties: ${ignoredProperties.join(", ")}`
+        );
+    }
+    if (skipped.length !== 0) {
+        notices.push(`Left out these notes: ${skipped.join(", ")}`);
+    }
+
+    const wordCountOptions = {
+        ...options.wordCount,
+        locale: metadata.lang ?? options.wordCount.locale,
+    };
+    const wordCounts = noteTrees.map(
+        ([name, subTree]): NoteWordCount => ({
+            name: name,
+            count: countWords(subTree, wordCountOptions),
+        })
+    );
+    if (!hasWordcountProperty) {
+        metadata.wordcount = wordCounts.reduce(
+            (sum, note) => sum + note.count,
+            0
+        );
+    }
+
+    return [tree, notices, wordCounts];
 }
@@ -1,19 +1,181 @@
-import { LineRuleType, WidthType } from "docx";
+import { toSection } from "@m2d/core/section";
+import { convertInchesToTwip, LineRuleType, WidthType } from "docx";
 import * as DOCX from "docx";
+import { Data, Root } from "mdast";
 import { IPlugin } from "mdast2docx";
+import { SKIP, visit } from "unist-util-visit";
+
+import { FrontMatterPlacement, FrontMatterPlacementType } from "./profiles";
+import { calloutRegExp } from "./wordCount";
+
+/**
+ * A docx section as passed to plugins' `postprocess()` method.
+ */
+type DocxSection = Parameters<NonNullable<IPlugin["postprocess"]>>[0][number];
+
+/**
+ * The Markdown AST passed to plugins' `preprocess()` method, which allows
+ * mdast2docx's extensions to mdast.
+ */
+type MdRoot = Parameters<NonNullable<IPlugin["preprocess"]>>[0];
+
+/**
+ * A footnote definition in the Markdown AST passed to plugins'
+ * `preprocess()` method.
+ */
+type FootnoteDefinition = Extract<
+    MdRoot["children"][number],
+    { type: "footnoteDefinition" }
+>;
+
+/**
+ * A paragraph in the Markdown AST passed to plugins' `block()` method.
+ */
+type MdParagraph = Extract<
+    Parameters<NonNullable<IPlugin["block"]>>[1],
+    { type: "paragraph" }
+>;
+
+/**
+ * Number of single-spaced blank lines before a novel title page's title,
+ * which puts the title about halfway down the page.
+ */
+const novelTitlePageBlankLines = 20;
 
 /**
- * mdast2docx plugin to convert Markdown thematic breaks (`***`) to Shunn-manuscript scene breaks (centered `#`).
+ * Default space above a novel's chapter heading, which puts the heading
+ * about a third of the way down a letter-sized page with 1" margins.
+ */
+const defaultChapterHeadingDrop = convertInchesToTwip(2.5);
+
+const singleSpaced = {
+    before: 0,
+    after: 0,
+    line: 240, // Single spaced: AUTO line rule sets this to be units of 1/240th of the font size
+    lineRule: LineRuleType.AUTO,
+};
+const doubleSpaced = {
+    before: 0,
+    after: 0,
+    line: 480, // Double spaced: AUTO line rule sets this to be units of 1/240th of the font size
+    lineRule: LineRuleType.AUTO,
+};
+
+/**
+ * IDs of the named paragraph styles the plugins give paragraphs, so that
+ * a whole manuscript can be restyled in Word by changing the styles.
+ */
+export const ManuscriptStyle = {
+    /**
+     * "Manuscript Body": the story's paragraphs.
+     */
+    Body: "ManuscriptBody",
+    /**
+     * "Scene Break": scene breaks and the closing matter.
+     */
+    SceneBreak: "SceneBreak",
+    /**
+     * "Front Matter": the contact information, word count, title and byline.
+     */
+    FrontMatter: "FrontMatter",
+    /**
+     * "Chapter Heading": part, chapter and scene headings.
+     */
+    ChapterHeading: "ChapterHeading",
+} as const;
+
+export type ManuscriptStyleType =
+    (typeof ManuscriptStyle)[keyof typeof ManuscriptStyle];
+
+/**
+ * Create the named paragraph styles that the plugins use.
+ *
+ * With pagination control, body paragraphs get widow and orphan control,
+ * scene breaks and headings are kept on the same page as the paragraph after
+ * them, so a scene break never ends a page, and front matter paragraphs such
+ * as the byline aren't split across pages.
+ *
+ * @param line Body text's line spacing in 240ths of a line. Defaults to double spaced.
+ * @param firstLine Body text's first line indent in twips. Defaults to 0.5".
+ * @param pagination Whether to control pagination. Defaults to true.
+ * @returns The styles, for docx's `styles.paragraphStyles` option.
+ */
+export function createManuscriptStyles(
+    line = 480,
+    firstLine = 720,
+    pagination = true
+): DOCX.IParagraphStyleOptions[] {
+    return [
+        {
+            id: ManuscriptStyle.Body,
+            name: "Manuscript Body",
+            next: ManuscriptStyle.Body,
+            quickFormat: true,
+            paragraph: {
+                alignment: "left",
+                indent: { firstLine: firstLine },
+                spacing: {
+                    before: 0,
+                    after: 0,
+                    line: line, // AUTO line rule sets this to be units of 1/240th of the font size
+                    lineRule: LineRuleType.AUTO,
+                },
+                // @ts-expect-error - docx writes widow control in styles, but its style types leave it out.
+                widowControl: pagination,
+            },
+        },
+        {
+            id: ManuscriptStyle.SceneBreak,
+            name: "Scene Break",
+            basedOn: ManuscriptStyle.Body,
+            next: ManuscriptStyle.Body,
+            quickFormat: true,
+            paragraph: {
+                alignment: "center",
+                indent: { firstLine: 0 },
+                keepNext: pagination,
+            },
+        },
+        {
+            id: ManuscriptStyle.FrontMatter,
+            name: "Front Matter",
+            quickFormat: true,
+            paragraph: {
+                alignment: "left",
+                indent: { firstLine: 0 },
+                spacing: singleSpaced,
+                keepLines: pagination,
+            },
+        },
+        {
+            id: ManuscriptStyle.ChapterHeading,
+            name: "Chapter Heading",
+            basedOn: ManuscriptStyle.Body,
+            next: ManuscriptStyle.Body,
+            quickFormat: true,
+            paragraph: {
+                alignment: "center",
+                indent: { firstLine: 0 },
+                keepNext: pagination,
+            },
+        },
+    ];
+}
+
+/**
+ * mdast2docx plugin to convert Markdown thematic breaks (`***`) to Shunn-manuscript scene breaks (centered `#`)
+ * in the "Scene Break" style.
  *
  * By default mdast2docx turns thematic breaks into a full horizontal rule.
+ *
+ * @param doubleSpace Whether to space the scene break like the body text, or single-space it.
+ * @param sceneBreak Text to use for the scene break.
  */
-export const shunnThematicBreakPlugin: (doubleSpace: boolean) => IPlugin = (
-    doubleSpace
-) => {
+export const shunnThematicBreakPlugin: (
+    doubleSpace: boolean,
+    sceneBreak?: string
+) => IPlugin = (doubleSpace, sceneBreak = "#") => {
     // Code based on https://github.com/md2docx/table/
-    const spacing = doubleSpace
-        ? { before: 0, line: 480, lineRule: LineRuleType.AUTO }
-        : { before: 0 };
     return {
         block: (docx, node) => {
             if (node.type !== "thematicBreak") return [];
@@ -22,9 +184,9 @@ export const shunnThematicBreakPlugin: (doubleSpace: boolean) => IPlugin = (
             node.type = "";
             return [
                 new docx.Paragraph({
-                    text: "#",
-                    alignment: "center",
-                    spacing: spacing,
+                    text: sceneBreak,
+                    style: ManuscriptStyle.SceneBreak,
+                    ...(doubleSpace ? {} : { spacing: singleSpaced }),
                 }),
             ];
         },
@@ -32,20 +194,220 @@ export const shunnThematicBreakPlugin: (doubleSpace: boolean) => IPlugin = (
 };
 
 /**
- * mdast2docx plugin to add a first line indent and double-space paragraphs.
+ * mdast2docx plugin to underline emphasized text instead of italicizing it,
+ * as in Shunn classic manuscript format.
+ *
+ * The plugin turns the tree's emphasis nodes into fragments that underline their children.
+ */
+export const underlineEmphasisPlugin: () => IPlugin = () => {
+    return {
+        preprocess: (tree) => {
+            visit(tree, "emphasis", (node) => {
+                // mdast2docx applies a fragment's data to its children's runs
+                // @ts-expect-error - "fragment" is mdast2docx's extension to mdast.
+                node.type = "fragment";
+                node.data = { ...node.data, underline: {} } as Data;
+            });
+        },
+    };
+};
+
+/**
+ * mdast2docx plugin to export Markdown footnotes as Word footnotes.
+ *
+ * mdast2docx turns footnote definitions into Word footnotes itself, but it
+ * looks them up by upper-cased identifier and looks references up by the
+ * identifier as written, so footnotes with names like `[^note]` aren't
+ * found. The plugin upper-cases the references' identifiers to match.
+ */
+export const footnotesPlugin: () => IPlugin = () => {
+    return {
+        preprocess: (tree) => {
+            visit(tree, "footnoteReference", (node) => {
+                node.identifier = node.identifier.toUpperCase();
+            });
+        },
+    };
+};
+
+/**
+ * Create a superscript number, such as a note's number in the text.
+ * @param value The number.
+ * @returns A fragment node, which mdast2docx applies its data to.
+ */
+function createSuperscript(value: number): MdParagraph["children"][number] {
+    // mdast2docx applies a fragment's data to its children's runs
+    return {
+        type: "fragment",
+        data: { superScript: true } as Data,
+        children: [{ type: "text", value: `${value}` }],
+    };
+}
+
+/**
+ * Replace footnote references inside footnotes with the superscript
+ * numbers Word gives the notes they refer to. mdast2docx converts the
+ * footnotes without knowing about the other footnotes, and fails on these
+ * references. It converts the footnotes before any plugin runs, so this
+ * has to be done before calling `toDocx()`.
+ *
+ * @param tree Markdown AST to change.
+ */
+export function flattenNestedFootnoteReferences(tree: Root) {
+    // Plugins see the tree as mdast2docx's extension of mdast
+    const mdTree = tree as MdRoot;
+    const defined = new Set<string>();
+    visit(mdTree, "footnoteDefinition", (node) => {
+        defined.add(node.identifier.toUpperCase());
+    });
+
+    // Word numbers footnotes in the order they're referred to in the text
+    const numbers = new Map<string, number>();
+    visit(mdTree, (node) => {
+        if (node.type === "footnoteDefinition") return SKIP;
+        if (node.type !== "footnoteReference") return;
+        const identifier = node.identifier.toUpperCase();
+        if (defined.has(identifier) && !numbers.has(identifier)) {
+            numbers.set(identifier, numbers.size + 1);
+        }
+    });
+
+    visit(mdTree, "footnoteDefinition", (definition) => {
+        visit(definition, "footnoteReference", (ref, index, parent) => {
+            const number = numbers.get(ref.identifier.toUpperCase());
+            parent?.children.splice(
+                index ?? 0,
+                1,
+                ...(number === undefined ? [] : [createSuperscript(number)])
+            );
+            return index;
+        });
+        return SKIP;
+    });
+}
+
+/**
+ * Take a manuscript's footnote definitions out of its Markdown AST, so that
+ * mdast2docx doesn't also turn them into Word footnotes. It collects them
+ * before any plugin runs, so this has to be done before calling `toDocx()`.
+ *
+ * @param tree Markdown AST to change.
+ * @returns The footnote definitions, for `endnotesPlugin()`.
+ */
+export function takeFootnoteDefinitions(tree: Root): FootnoteDefinition[] {
+    const definitions: FootnoteDefinition[] = [];
+    // Plugins see the tree as mdast2docx's extension of mdast
+    visit(tree as MdRoot, "footnoteDefinition", (node, index, parent) => {
+        definitions.push(node);
+        parent?.children.splice(index ?? 0, 1);
+        return index;
+    });
+    return definitions;
+}
+
+/**
+ * mdast2docx plugin to export Markdown footnotes as endnotes: superscript
+ * numbers in the text, and a section at the end of the manuscript with
+ * the numbered notes.
+ *
+ * docx can't create Word endnotes, so the notes are ordinary paragraphs,
+ * numbered in the order they're first referred to. They're added after
+ * any closing matter, such as "END", from plugins earlier in the list.
+ *
+ * @param definitions Footnote definitions from `takeFootnoteDefinitions()`.
+ * @param heading Text of the heading that starts the notes section.
+ * @param plugins Plugins to format the notes with.
+ */
+export const endnotesPlugin: (
+    definitions: FootnoteDefinition[],
+    heading?: string,
+    plugins?: IPlugin[]
+) => IPlugin = (definitions, heading = "Notes", plugins = []) => {
+    const definitionsById = new Map(
+        definitions.map((node) => [node.identifier.toUpperCase(), node])
+    );
+    let noteParas: DocxSection["children"] = [];
+
+    return {
+        preprocess: async (tree, linkDefinitions) => {
+            const notes: FootnoteDefinition[] = [];
+            const numbers = new Map<string, number>();
+            const numberReferences = (node: MdRoot | FootnoteDefinition) => {
+                visit(node, "footnoteReference", (ref, index, parent) => {
+                    const identifier = ref.identifier.toUpperCase();
+                    const definition = definitionsById.get(identifier);
+                    if (definition === undefined) return;
+                    if (!numbers.has(identifier)) {
+                        notes.push(definition);
+                        numbers.set(identifier, notes.length);
+                    }
+                    parent?.children.splice(
+                        index ?? 0,
+                        1,
+                        createSuperscript(numbers.get(identifier) ?? 0)
+                    );
+                });
+            };
+            numberReferences(tree);
+            // Notes can refer to other notes
+            for (let ndx = 0; ndx < notes.length; ++ndx) {
+                numberReferences(notes[ndx]);
+            }
+            if (notes.length === 0) return;
+
+            const notesTree: MdRoot = {
+                type: "root",
+                children: [
+                    {
+                        type: "paragraph",
+                        // mdast2docx applies a paragraph's data to its options
+                        data: {
+                            style: ManuscriptStyle.ChapterHeading,
+                            pageBreakBefore: true,
+                        } as Data,
+                        children: [{ type: "text", value: heading }],
+                    },
+                ],
+            };
+            notes.forEach((note, ndx) => {
+                const first = note.children[0];
+                if (first?.type === "paragraph") {
+                    first.children.unshift({
+                        type: "text",
+                        value: `${ndx + 1}. `,
+                    });
+                }
+                notesTree.children.push(...note.children);
+            });
+            // Convert the notes now, as postprocess() can't wait for it
+            noteParas = (
+                await toSection(notesTree, linkDefinitions, {}, { plugins })
+            ).children;
+        },
+        postprocess: (sections) => {
+            if (sections.length === 0 || noteParas.length === 0) return;
+
+            // mdast2docx can call postprocess() more than once, so make
+            // sure we only add the notes once
+            const lastSection = sections[sections.length - 1];
+            if (lastSection.children.includes(noteParas[0])) return;
+
+            lastSection.children = [...lastSection.children, ...noteParas];
+        },
+    };
+};
+
+/**
+ * mdast2docx plugin to give paragraphs the "Manuscript Body" style, which
+ * adds a first line indent and double-spaces them.
  */
 export const doubleSpaceAndIndentParas: () => IPlugin = () => {
     return {
         block(docx, node, paraProps) {
             if (node.type === "paragraph") {
-                paraProps.indent = {
-                    firstLine: 720,
-                };
-                paraProps.spacing = {
-                    before: 0,
-                    line: 480, // Double spaced: AUTO line rule sets this to be units of 1/240th of the font size
-                    lineRule: LineRuleType.AUTO,
-                };
+                paraProps.style = ManuscriptStyle.Body;
+                // Otherwise indents such as mdast2docx's for block quotes override the style's
+                delete paraProps.indent;
             }
 
             return [];
@@ -53,6 +415,265 @@ export const doubleSpaceAndIndentParas: () => IPlugin = () => {
     };
 };
 
+/**
+ * Callouts that mark special blocks of text in a story, such as
+ * `> [!epigraph]`.
+ */
+export const CalloutType = {
+    /**
+     * An epigraph, with its source as the attribution.
+     */
+    Epigraph: "epigraph",
+    /**
+     * A letter, note or email in the story, signed by its attribution.
+     */
+    Letter: "letter",
+    /**
+     * A sign, text message exchange or other document in the story.
+     */
+    Document: "document",
+} as const;
+
+export type CalloutTypeType = (typeof CalloutType)[keyof typeof CalloutType];
+
+/**
+ * Matches the start of an attribution line, such as `— Tolstoy` or `-- Mom`.
+ */
+const attributionRegExp = /^\s*(—|―|--)/;
+
+/**
+ * Split an attribution line off the end of a paragraph, if it has one.
+ * @param paragraph Paragraph in a callout.
+ * @returns The paragraph, or the paragraph without its last line and the
+ *          attribution line as a paragraph of its own.
+ */
+function splitAttribution(paragraph: MdParagraph): MdParagraph[] {
+    let ndx = paragraph.children.length - 1;
+    while (ndx >= 0) {
+        const child = paragraph.children[ndx];
+        if (child.type === "text" && child.value.includes("\n")) break;
+        --ndx;
+    }
+    const child = paragraph.children[ndx];
+    if (child?.type !== "text") return [paragraph];
+    const breakNdx = child.value.lastIndexOf("\n");
+    const tail = child.value.slice(breakNdx + 1);
+    if (!attributionRegExp.test(tail)) return [paragraph];
+
+    const attribution: MdParagraph = {
+        type: "paragraph",
+        children: [
+            { type: "text", value: tail },
+            ...paragraph.children.slice(ndx + 1),
+        ],
+    };
+    paragraph.children = [
+        ...paragraph.children.slice(0, ndx),
+        { type: "text", value: child.value.slice(0, breakNdx) },
+    ];
+    return [paragraph, attribution];
+}
+
+/**
+ * mdast2docx plugin to format an Obsidian callout, such as `> [!letter]`,
+ * as an indented block with no first line indent. A paragraph or line that
+ * starts with a dash, like `— Tolstoy`, is an attribution and is aligned
+ * right. The callout's first line, with its type and any title, is left out.
+ *
+ * Other callouts and block quotes are left alone.
+ *
+ * @param calloutType Callout type to format, such as "epigraph".
+ * @param indent Left and right indent in twips. Defaults to 0.5".
+ */
+export const calloutBlockPlugin: (
+    calloutType: CalloutTypeType,
+    indent?: number
+) => IPlugin = (calloutType, indent = 720) => {
+    return {
+        block: (docx, node, paraProps, blockChildrenProcessor) => {
+            if (node.type !== "blockquote") return [];
+            const first = node.children[0];
+            const text =
+                first?.type === "paragraph" ? first.children[0] : undefined;
+            if (first?.type !== "paragraph" || text?.type !== "text") {
+                return [];
+            }
+            const match = calloutRegExp.exec(text.value);
+            if (match === null || match[1].toLowerCase() !== calloutType) {
+                return [];
+            }
+
+            text.value = text.value.slice(match[0].length);
+            if (text.value === "") first.children.shift();
+            if (first.children.length === 0) node.children.shift();
+            node.children = node.children.flatMap<
+                (typeof node.children)[number]
+            >((child) =>
+                child.type === "paragraph" ? splitAttribution(child) : [child]
+            );
+            for (const child of node.children) {
+                if (child.type !== "paragraph") continue;
+                const isAttribution =
+                    child.children[0]?.type === "text" &&
+                    attributionRegExp.test(child.children[0].value);
+                // mdast2docx applies a paragraph's data to its options after the plugins have run
+                child.data = {
+                    ...child.data,
+                    indent: { left: indent, right: indent, firstLine: 0 },
+                    ...(isAttribution ? { alignment: "right" } : {}),
+                } as Data;
+            }
+
+            const children = blockChildrenProcessor(node, paraProps);
+            // @ts-expect-error - Setting type to empty string to avoid mdast2docx also processing the node.
+            node.type = "";
+            return children;
+        },
+    };
+};
+
+/**
+ * Extra lines for a manuscript's front matter, such as the rights offered
+ * and content warnings.
+ */
+export interface FrontMatterLines {
+    /**
+     * Lines of text, in order.
+     */
+    lines: string[];
+    /**
+     * Where to put the lines.
+     */
+    placement: FrontMatterPlacementType;
+}
+
+/**
+ * Get the extra front matter lines that go in one place.
+ * @param extraLines Extra front matter lines, if any.
+ * @param placement Place to get the lines for.
+ * @returns The lines, or an empty array if they go somewhere else.
+ */
+function linesFor(
+    extraLines: FrontMatterLines | undefined,
+    placement: FrontMatterPlacementType
+): string[] {
+    return extraLines?.placement === placement ? extraLines.lines : [];
+}
+
+/**
+ * Create the borderless table at the top of a manuscript that holds
+ * the author's contact information and the word count.
+ *
+ * @param docx docx module to create the table with.
+ * @param wordCountDesc Description of the number of words.
+ * @param contactInfo Contact information. For multiple lines, separate by `\n`.
+ * @param lines Lines to put under the word count.
+ * @returns The table.
+ */
+function createContactTable(
+    docx: typeof DOCX,
+    wordCountDesc: string,
+    contactInfo?: string,
+    lines: string[] = []
+): DOCX.Table {
+    const contactInfoElems =
+        contactInfo !== undefined
+            ? contactInfo
+                  .split("\n")
+                  .map((t, ndx) =>
+                      ndx === 0
+                          ? new docx.TextRun(t)
+                          : new docx.TextRun({ text: t, break: 1 })
+                  )
+            : undefined;
+
+    return new docx.Table({
+        rows: [
+            new docx.TableRow({
+                children: [
+                    new docx.TableCell({
+                        children: [
+                            new docx.Paragraph({
+                                children: contactInfoElems,
+                                style: ManuscriptStyle.FrontMatter,
+                            }),
+                        ],
+                        width: {
+                            size: 50,
+                            type: WidthType.PERCENTAGE,
+                        },
+                    }),
+                    new docx.TableCell({
+                        children: [wordCountDesc, ...lines].map(
+                            (text) =>
+                                new docx.Paragraph({
+                                    text: text,
+                                    style: ManuscriptStyle.FrontMatter,
+                                    alignment: "right",
+                                })
+                        ),
+                    }),
+                ],
+            }),
+        ],
+        width: { size: 100, type: WidthType.PERCENTAGE },
+        borders: {
+            top: { style: "none" },
+            right: { style: "none" },
+            bottom: { style: "none" },
+            left: { style: "none" },
+            insideHorizontal: { style: "none" },
+            insideVertical: { style: "none" },
+        },
+    });
+}
+
+/**
+ * Create the centered title and byline paragraphs.
+ *
+ * @param docx docx module to create the paragraphs with.
+ * @param title Title of the story.
+ * @param author Name of the author, or undefined to leave out the byline.
+ * @param lines Lines to put below the byline.
+ * @returns The title, (optional) byline and extra line paragraphs.
+ */
+function createTitleAndAuthor(
+    docx: typeof DOCX,
+    title: string,
+    author?: string,
+    lines: string[] = []
+): DOCX.Paragraph[] {
+    const titleAndAuthor = [
+        new docx.Paragraph({
+            text: title,
+            style: ManuscriptStyle.FrontMatter,
+            alignment: "center",
+            spacing: doubleSpaced,
+        }),
+    ];
+    if (author !== undefined) {
+        titleAndAuthor.push(
+            new docx.Paragraph({
+                text: `by ${author}`,
+                style: ManuscriptStyle.FrontMatter,
+                alignment: "center",
+                spacing: doubleSpaced,
+            })
+        );
+    }
+    for (const line of lines) {
+        titleAndAuthor.push(
+            new docx.Paragraph({
+                text: line,
+                style: ManuscriptStyle.FrontMatter,
+                alignment: "center",
+                spacing: doubleSpaced,
+            })
+        );
+    }
+    return titleAndAuthor;
+}
+
 /**
  * mdast2docx plugin to add Shunn-style front matter to the manuscript.
  *
@@ -61,32 +682,30 @@ export const doubleSpaceAndIndentParas: () => IPlugin = () => {
  * @param author Name of the author. Leave blank to anonymize the story.
  * @param contactInfo Contact information. For multiple lines, separate by `\n`.
  * Leave blank to anonymize the story.
+ * @param extraLines Extra lines, such as the rights offered, and where to put them.
+ * @param docx docx module to use. Defaults to the real one.
  */
 export const addFrontMatterPlugin: (
     title: string,
     wordCountDesc: string,
     author?: string,
     contactInfo?: string,
+    extraLines?: FrontMatterLines,
     docx?: typeof DOCX
-) => IPlugin = (title, wordCountDesc, author, contactInfo, docx) => {
+) => IPlugin = (
+    title,
+    wordCountDesc,
+    author,
+    contactInfo,
+    extraLines,
+    docx
+) => {
     if (docx === undefined) {
         docx = DOCX;
     }
-    const singleSpaced = {
-        before: 0,
-        after: 0,
-        line: 240, // Single spaced: AUTO line rule sets this to be units of 1/240th of the font size
-        lineRule: LineRuleType.AUTO,
-    };
-    const doubleSpaced = {
-        before: 0,
-        after: 0,
-        line: 480, // Single spaced: AUTO line rule sets this to be units of 1/240th of the font size
-        lineRule: LineRuleType.AUTO,
-    };
     const blankPara = new docx.Paragraph({
         text: "",
-        spacing: singleSpaced,
+        style: ManuscriptStyle.FrontMatter,
     });
 
     return {
@@ -102,74 +721,14 @@ export const addFrontMatterPlugin: (
                 return;
             }
 
-            const contactInfoElems =
-                contactInfo !== undefined
-                    ? contactInfo
-                          .split("\n")
-                          .map((t, ndx) =>
-                              ndx === 0
-                                  ? new docx.TextRun(t)
-                                  : new docx.TextRun({ text: t, break: 1 })
-                          )
-                    : undefined;
-            const titleAndAuthor = [
-                new docx.Paragraph({
-                    text: title,
-                    alignment: "center",
-                    spacing: doubleSpaced,
-                }),
-            ];
-            if (author !== undefined) {
-                titleAndAuthor.push(
-                    new docx.Paragraph({
-                        text: `by ${author}`,
-                        alignment: "center",
-                        spacing: doubleSpaced,
-                    })
-                );
-            }
-
             sections[0].children = [
                 // Heading table with contact info and word count
-                new docx.Table({
-                    rows: [
-                        new docx.TableRow({
-                            children: [
-                                new docx.TableCell({
-                                    children: [
-                                        new docx.Paragraph({
-                                            children: contactInfoElems,
-                                            alignment: "left",
-                                            spacing: singleSpaced,
-                                        }),
-                                    ],
-                                    width: {
-                                        size: 50,
-                                        type: WidthType.PERCENTAGE,
-                                    },
-                                }),
-                                new docx.TableCell({
-                                    children: [
-                                        new docx.Paragraph({
-                                            text: wordCountDesc,
-                                            alignment: "right",
-                                            spacing: singleSpaced,
-                                        }),
-                                    ],
-                                }),
-                            ],
-                        }),
-                    ],
-                    width: { size: 100, type: WidthType.PERCENTAGE },
-                    borders: {
-                        top: { style: "none" },
-                        right: { style: "none" },
-                        bottom: { style: "none" },
-                        left: { style: "none" },
-                        insideHorizontal: { style: "none" },
-                        insideVertical: { style: "none" },
-                    },
-                }),
+                createContactTable(
+                    docx,
+                    wordCountDesc,
+                    contactInfo,
+                    linesFor(extraLines, FrontMatterPlacement.Table)
+                ),
                 // Blanks before title and author
                 blankPara,
                 blankPara,
@@ -181,9 +740,15 @@ export const addFrontMatterPlugin: (
                 blankPara,
                 blankPara,
                 blankPara,
-                ...titleAndAuthor,
+                ...createTitleAndAuthor(
+                    docx,
+                    title,
+                    author,
+                    linesFor(extraLines, FrontMatterPlacement.Byline)
+                ),
                 new docx.Paragraph({
                     text: "",
+                    style: ManuscriptStyle.FrontMatter,
                     spacing: doubleSpaced,
                 }),
                 // The rest of the document
@@ -192,3 +757,221 @@ export const addFrontMatterPlugin: (
         },
     };
 };
+
+/**
+ * mdast2docx plugin to add closing matter, such as a centered "END",
+ * after the manuscript's last line.
+ *
+ * @param marker Text that marks the end of the manuscript.
+ * @param docx docx module to use. Defaults to the real one.
+ */
+export const closingMatterPlugin: (
+    marker?: string,
+    docx?: typeof DOCX
+) => IPlugin = (marker = "END", docx) => {
+    if (docx === undefined) {
+        docx = DOCX;
+    }
+    const endPara = new docx.Paragraph({
+        text: marker,
+        style: ManuscriptStyle.SceneBreak,
+    });
+
+    return {
+        postprocess: (sections) => {
+            if (sections.length === 0) return;
+
+            // mdast2docx can call postprocess() more than once, so make
+            // sure we only add the marker once
+            const lastSection = sections[sections.length - 1];
+            if (lastSection.children.includes(endPara)) return;
+
+            lastSection.children = [...lastSection.children, endPara];
+        },
+    };
+};
+
+/**
+ * mdast2docx plugin to add a Shunn-style novel title page to the manuscript.
+ *
+ * The title page is added as its own section so that it has no header
+ * and so that page numbering in the following section starts at the
+ * novel's first page of text.
+ *
+ * @param title Title of the novel.
+ * @param wordCountDesc Description of the number of words, such as "About 88,000 words".
+ * @param author Name of the author. Leave blank to anonymize the novel.
+ * @param contactInfo Contact information. For multiple lines, separate by `\n`.
+ * Leave blank to anonymize the novel.
+ * @param extraLines Extra lines, such as the rights offered, and where to put them.
+ * @param properties Section properties (such as margins) for the title page.
+ */
+export const novelTitlePagePlugin: (
+    title: string,
+    wordCountDesc: string,
+    author?: string,
+    contactInfo?: string,
+    extraLines?: FrontMatterLines,
+    properties?: DOCX.ISectionPropertiesOptions,
+    docx?: typeof DOCX
+) => IPlugin = (
+    title,
+    wordCountDesc,
+    author,
+    contactInfo,
+    extraLines,
+    properties,
+    docx
+) => {
+    if (docx === undefined) {
+        docx = DOCX;
+    }
+    let titlePage: DocxSection | undefined;
+
+    return {
+        postprocess: (sections) => {
+            if (sections.length === 0) return;
+
+            // Like the front matter plugin, guard against mdast2docx
+            // calling postprocess() multiple times.
+            if (titlePage !== undefined && sections[0] === titlePage) {
+                return;
+            }
+
+            const blankPara = new docx.Paragraph({
+                text: "",
+                style: ManuscriptStyle.FrontMatter,
+            });
+            titlePage = {
+                children: [
+                    createContactTable(
+                        docx,
+                        wordCountDesc,
+                        contactInfo,
+                        linesFor(extraLines, FrontMatterPlacement.Table)
+                    ),
+                    // Blanks to bring the title about halfway down the page
+                    ...Array<DOCX.Paragraph>(novelTitlePageBlankLines).fill(
+                        blankPara
+                    ),
+                    ...createTitleAndAuthor(
+                        docx,
+                        title,
+                        author,
+                        linesFor(extraLines, FrontMatterPlacement.Byline)
+                    ),
+                ],
+                properties: properties,
+            };
+            sections.unshift(titlePage);
+        },
+    };
+};
+
+/**
+ * How to handle headings below level 2, which are below part and chapter headings.
+ */
+export const LowerHeadingRule = {
+    /**
+     * Keep the heading as a centered scene title.
+     */
+    SceneTitle: "sceneTitle",
+    /**
+     * Leave the heading out of the manuscript.
+     */
+    Drop: "drop",
+} as const;
+
+export type LowerHeadingRuleType =
+    (typeof LowerHeadingRule)[keyof typeof LowerHeadingRule];
+
+/**
+ * mdast2docx plugin to turn headings into manuscript headings instead of
+ * mdast2docx's default heading styles.
+ *
+ * Level 1 and 2 headings (parts and chapters) and scene titles become
+ * paragraphs in the "Chapter Heading" style, which centers them in the
+ * manuscript's font, spaced like the body text. Put it after
+ * `novelChapterHeadingPlugin()` to handle only scene titles in novels.
+ *
+ * @param newPage Whether to start part and chapter headings on a new page.
+ * @param lowerHeadings How to handle headings below level 2.
+ */
+export const manuscriptHeadingPlugin: (
+    newPage?: boolean,
+    lowerHeadings?: LowerHeadingRuleType
+) => IPlugin = (
+    newPage = false,
+    lowerHeadings = LowerHeadingRule.SceneTitle
+) => {
+    return {
+        block: (
+            docx,
+            node,
+            paraProps,
+            blockChildrenProcessor,
+            inlineChildrenProcessor
+        ) => {
+            if (node.type !== "heading") return [];
+
+            const isChapter = node.depth <= 2;
+            if (!isChapter && lowerHeadings === LowerHeadingRule.Drop) {
+                // @ts-expect-error - Setting type to empty string to avoid mdast2docx also processing the node.
+                node.type = "";
+                return [];
+            }
+
+            const children = inlineChildrenProcessor(node);
+            // @ts-expect-error - Setting type to empty string to avoid mdast2docx also processing the node.
+            node.type = "";
+            return [
+                new docx.Paragraph({
+                    children: children,
+                    style: ManuscriptStyle.ChapterHeading,
+                    pageBreakBefore: isChapter && newPage,
+                }),
+            ];
+        },
+    };
+};
+
+/**
+ * mdast2docx plugin to turn level 1 and 2 headings (parts and chapters)
+ * into Shunn-style novel chapter headings.
+ *
+ * Each heading starts on a new page about a third of the way down, in the
+ * "Chapter Heading" style.
+ *
+ * @param drop Space above the heading in twips. Defaults to a third of the
+ * way down a letter-sized page with 1" margins.
+ */
+export const novelChapterHeadingPlugin: (drop?: number) => IPlugin = (
+    drop = defaultChapterHeadingDrop
+) => {
+    return {
+        block: (
+            docx,
+            node,
+            paraProps,
+            blockChildrenProcessor,
+            inlineChildrenProcessor
+        ) => {
+            if (node.type !== "heading" || node.depth > 2) return [];
+
+            const children = inlineChildrenProcessor(node);
+            // @ts-expect-error - Setting type to empty string to avoid mdast2docx also processing the node.
+            node.type = "";
+            return [
+                new docx.Paragraph({
+                    children: children,
+                    style: ManuscriptStyle.ChapterHeading,
+                    pageBreakBefore: true,
+                    spacing: {
+                        before: drop,
+                        after: 480, // One double-spaced blank line before the text
+                    },
+                }),
+            ];
+        },
+    };
+};
@@ -0,0 +1,427 @@
+import JSZip from "jszip";
+
+/**
+ * Page size and margins in twips, in the shape docx's section properties use.
+ */
+export interface TemplatePage {
+    size: { width: number; height: number };
+    margin: {
+        top: number;
+        right: number;
+        bottom: number;
+        left: number;
+        header?: number;
+        footer?: number;
+        gutter?: number;
+    };
+}
+
+/**
+ * Formatting read from a reference .docx, such as an agency's house template.
+ */
+export interface DocxTemplate {
+    /**
+     * Template's styles part, which also holds its default fonts.
+     */
+    styles?: string;
+    /**
+     * Template's theme part, which holds the theme fonts its styles can refer to.
+     */
+    theme?: string;
+    /**
+     * Template's font table part.
+     */
+    fontTable?: string;
+    /**
+     * Page size and margins of the template's last section.
+     */
+    page?: TemplatePage;
+    /**
+     * Template's default header part.
+     */
+    header?: string;
+    /**
+     * Template's default footer part.
+     */
+    footer?: string;
+    /**
+     * Parts of the template that couldn't be used, and why.
+     */
+    warnings: string[];
+}
+
+/**
+ * Types of the parts we copy from a template.
+ */
+const RelationshipType = {
+    Footer: "http://schemas.openxmlformats.org/officeDocument/2006/relationships/footer",
+    Theme: "http://schemas.openxmlformats.org/officeDocument/2006/relationships/theme",
+} as const;
+
+/**
+ * Content types of the parts we add to a document.
+ */
+const ContentType = {
+    Footer: "application/vnd.openxmlformats-officedocument.wordprocessingml.footer+xml",
+    Theme: "application/vnd.openxmlformats-officedocument.theme+xml",
+} as const;
+
+/**
+ * IDs of the relationships we add to the manuscript for the template's parts.
+ */
+const TEMPLATE_FOOTER_ID = "rIdTemplateFooter";
+const TEMPLATE_THEME_ID = "rIdTemplateTheme";
+
+/**
+ * Read the attributes of the first element with a given name.
+ * @param xml XML to search.
+ * @param name Element's qualified name, such as `w:pgSz`.
+ * @returns The attributes by qualified name, or undefined if there's no such element.
+ */
+function readAttributes(
+    xml: string,
+    name: string
+): Record<string, string> | undefined {
+    const match = new RegExp(`<${name}\\b([^>]*)>`).exec(xml);
+    return match === null ? undefined : parseAttributes(match[1]);
+}
+
+/**
+ * Parse an element's attributes.
+ * @param attributes Text of the attributes, such as `w:w="12240" w:h="15840"`.
+ * @returns The attributes by qualified name.
+ */
+function parseAttributes(attributes: string): Record<string, string> {
+    return Object.fromEntries(
+        [...attributes.matchAll(/([\w:]+)="([^"]*)"/g)].map((m) => [m[1], m[2]])
+    );
+}
+
+/**
+ * Read a number of twips from an attribute.
+ * @param attributes Element's attributes.
+ * @param name Attribute's name.
+ * @returns The number, or undefined if the attribute is missing or not a number.
+ */
+function readTwips(
+    attributes: Record<string, string>,
+    name: string
+): number | undefined {
+    const value = Number(attributes[name]);
+    return name in attributes && Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * Get the path of a part in the package from a relationship's target.
+ * @param target Relationship's target, relative to the `word` folder unless it starts with `/`.
+ * @returns The part's path in the zip file.
+ */
+function partPath(target: string): string {
+    return target.startsWith("/") ? target.slice(1) : `word/${target}`;
+}
+
+/**
+ * Get the path of a part's relationships.
+ * @param path Part's path, such as `word/header1.xml`.
+ * @returns The relationships' path, such as `word/_rels/header1.xml.rels`.
+ */
+function relationshipsPath(path: string): string {
+    const ndx = path.lastIndexOf("/");
+    return `${path.slice(0, ndx)}/_rels/${path.slice(ndx + 1)}.rels`;
+}
+
+/**
+ * Read the targets of the main document's relationships.
+ * @param zip Word document.
+ * @returns The relationships' targets, keyed by ID.
+ */
+async function readDocumentRelationships(
+    zip: JSZip
+): Promise<Map<string, { type: string; target: string }>> {
+    const rels =
+        (await zip.file("word/_rels/document.xml.rels")?.async("string")) ?? "";
+    const relationships = new Map<string, { type: string; target: string }>();
+    for (const match of rels.matchAll(/<Relationship\b([^>]*)>/g)) {
+        const attributes = parseAttributes(match[1]);
+        relationships.set(attributes["Id"], {
+            type: attributes["Type"],
+            target: attributes["Target"],
+        });
+    }
+    return relationships;
+}
+
+/**
+ * Find the IDs of the default header or footer references in a document's sections.
+ * @param sectionXml XML of one or more sections' properties.
+ * @param name `w:headerReference` or `w:footerReference`.
+ * @returns The relationship IDs.
+ */
+function findDefaultReferences(sectionXml: string, name: string): string[] {
+    return [...sectionXml.matchAll(new RegExp(`<${name}\\b([^>]*)>`, "g"))]
+        .map((m) => parseAttributes(m[1]))
+        .filter((attributes) => attributes["w:type"] === "default")
+        .map((attributes) => attributes["r:id"]);
+}
+
+/**
+ * Read a template's default header or footer part, if it can be copied
+ * into another document. Parts with relationships of their own, such as
+ * pictures, can't be.
+ * @param zip Template.
+ * @param sectionXml XML of the template's last section's properties.
+ * @param relationships Template's main document relationships.
+ * @param kind "header" or "footer".
+ * @param warnings Warnings to add to.
+ * @returns The part's XML, or undefined if there isn't one that can be used.
+ */
+async function readHeaderOrFooter(
+    zip: JSZip,
+    sectionXml: string,
+    relationships: Map<string, { type: string; target: string }>,
+    kind: "header" | "footer",
+    warnings: string[]
+): Promise<string | undefined> {
+    const [id] = findDefaultReferences(sectionXml, `w:${kind}Reference`);
+    const target = relationships.get(id)?.target;
+    if (target === undefined) return undefined;
+
+    const path = partPath(target);
+    const rels = await zip.file(relationshipsPath(path))?.async("string");
+    if (rels !== undefined && /<Relationship\b/.test(rels)) {
+        warnings.push(
+            `The template's ${kind} has pictures or links, which can't be copied, so it isn't used`
+        );
+        return undefined;
+    }
+    return zip.file(path)?.async("string");
+}
+
+/**
+ * Read the formatting to use from a reference .docx.
+ *
+ * @param data Contents of the .docx file.
+ * @returns The template's formatting.
+ * @throws Error if the file isn't a Word document.
+ */
+export async function readDocxTemplate(
+    data: ArrayBuffer
+): Promise<DocxTemplate> {
+    let zip: JSZip;
+    try {
+        zip = await JSZip.loadAsync(data);
+    } catch {
+        throw new Error("isn't a Word document");
+    }
+    const document = await zip.file("word/document.xml")?.async("string");
+    if (document === undefined) {
+        throw new Error("isn't a Word document");
+    }
+
+    const warnings: string[] = [];
+    const template: DocxTemplate = {
+        styles: await zip.file("word/styles.xml")?.async("string"),
+        warnings: warnings,
+    };
+
+    const relationships = await readDocumentRelationships(zip);
+    const theme = [...relationships.values()].find(
+        (rel) => rel.type === RelationshipType.Theme
+    );
+    if (theme !== undefined) {
+        template.theme = await zip
+            .file(partPath(theme.target))
+            ?.async("string");
+    }
+    // Embedded fonts are relationships of the font table, which we can't copy
+    const fontTableRels = await zip
+        .file("word/_rels/fontTable.xml.rels")
+        ?.async("string");
+    if (fontTableRels === undefined || !/<Relationship\b/.test(fontTableRels)) {
+        template.fontTable = await zip
+            .file("word/fontTable.xml")
+            ?.async("string");
+    }
+
+    // The body's last section properties apply to the end of the document
+    const sectionXml = document.slice(document.lastIndexOf("<w:sectPr"));
+    const size = readAttributes(sectionXml, "w:pgSz");
+    const margin = readAttributes(sectionXml, "w:pgMar");
+    const width = size && readTwips(size, "w:w");
+    const height = size && readTwips(size, "w:h");
+    const top = margin && readTwips(margin, "w:top");
+    const right = margin && readTwips(margin, "w:right");
+    const bottom = margin && readTwips(margin, "w:bottom");
+    const left = margin && readTwips(margin, "w:left");
+    if (
+        margin !== undefined &&
+        width !== undefined &&
+        height !== undefined &&
+        top !== undefined &&
+        right !== undefined &&
+        bottom !== undefined &&
+        left !== undefined
+    ) {
+        template.page = {
+            size: { width: width, height: height },
+            margin: {
+                top: top,
+                right: right,
+                bottom: bottom,
+                left: left,
+                header: readTwips(margin, "w:header"),
+                footer: readTwips(margin, "w:footer"),
+                gutter: readTwips(margin, "w:gutter"),
+            },
+        };
+    }
+
+    template.header = await readHeaderOrFooter(
+        zip,
+        sectionXml,
+        relationships,
+        "header",
+        warnings
+    );
+    template.footer = await readHeaderOrFooter(
+        zip,
+        sectionXml,
+        relationships,
+        "footer",
+        warnings
+    );
+    return template;
+}
+
+/**
+ * Combine a template's styles with a document's, keeping the template's
+ * version of any style both define.
+ * @param templateStyles Template's styles part.
+ * @param documentStyles Document's styles part.
+ * @returns The combined styles part.
+ */
+function mergeStyles(templateStyles: string, documentStyles: string): string {
+    const styleId = (style: string) =>
+        /w:styleId="([^"]*)"/.exec(style)?.[1] ?? "";
+    const templateIds = new Set(
+        (templateStyles.match(/<w:style\b[^>]*>/g) ?? []).map(styleId)
+    );
+    const missing = (
+        documentStyles.match(/<w:style\b[\s\S]*?<\/w:style>/g) ?? []
+    ).filter((style) => !templateIds.has(styleId(style)));
+    return templateStyles.replace(
+        "</w:styles>",
+        `${missing.join("")}</w:styles>`
+    );
+}
+
+/**
+ * Add a part to a document, along with its content type and its
+ * relationship to the main document.
+ * @param zip Document.
+ * @param target Part's path relative to the `word` folder.
+ * @param xml Part's contents.
+ * @param contentType Part's content type.
+ * @param relationshipType Part's relationship type.
+ * @param id Relationship's ID.
+ */
+async function addPart(
+    zip: JSZip,
+    target: string,
+    xml: string,
+    contentType: string,
+    relationshipType: string,
+    id: string
+) {
+    zip.file(`word/${target}`, xml);
+    const types =
+        (await zip.file("[Content_Types].xml")?.async("string")) ?? "";
+    zip.file(
+        "[Content_Types].xml",
+        types.replace(
+            "</Types>",
+            `<Override ContentType="${contentType}" PartName="/word/${target}"/></Types>`
+        )
+    );
+    const rels =
+        (await zip.file("word/_rels/document.xml.rels")?.async("string")) ?? "";
+    zip.file(
+        "word/_rels/document.xml.rels",
+        rels.replace(
+            "</Relationships>",
+            `<Relationship Id="${id}" Type="${relationshipType}" Target="${target}"/></Relationships>`
+        )
+    );
+}
+
+/**
+ * Pour a generated document into a template: use the template's styles,
+ * fonts, header and footer instead of the document's own.
+ *
+ * The document's styles that the template doesn't define, such as the
+ * manuscript's named styles, are kept. The template's page size and margins
+ * aren't applied here; pass them to docx when creating the document instead.
+ *
+ * @param data Contents of the generated .docx file.
+ * @param template Template's formatting.
+ * @returns Contents of the new .docx file.
+ */
+export async function applyDocxTemplate(
+    data: ArrayBuffer,
+    template: DocxTemplate
+): Promise<ArrayBuffer> {
+    const zip = await JSZip.loadAsync(data);
+    let document = (await zip.file("word/document.xml")?.async("string")) ?? "";
+    const relationships = await readDocumentRelationships(zip);
+
+    if (template.styles !== undefined) {
+        const styles =
+            (await zip.file("word/styles.xml")?.async("string")) ?? "";
+        zip.file("word/styles.xml", mergeStyles(template.styles, styles));
+    }
+    if (template.fontTable !== undefined) {
+        zip.file("word/fontTable.xml", template.fontTable);
+    }
+    const hasTheme = [...relationships.values()].some(
+        (rel) => rel.type === RelationshipType.Theme
+    );
+    if (template.theme !== undefined && !hasTheme) {
+        await addPart(
+            zip,
+            "theme/theme1.xml",
+            template.theme,
+            ContentType.Theme,
+            RelationshipType.Theme,
+            TEMPLATE_THEME_ID
+        );
+    }
+
+    if (template.header !== undefined) {
+        for (const id of findDefaultReferences(document, "w:headerReference")) {
+            const target = relationships.get(id)?.target;
+            if (target !== undefined) {
+                zip.file(partPath(target), template.header);
+            }
+        }
+    }
+    if (template.footer !== undefined) {
+        // Put the footer on the pages that have the running header, so
+        // a novel's title page doesn't get one
+        await addPart(
+            zip,
+            "templateFooter.xml",
+            template.footer,
+            ContentType.Footer,
+            RelationshipType.Footer,
+            TEMPLATE_FOOTER_ID
+        );
+        document = document.replace(
+            /<w:headerReference\b[^>]*w:type="default"[^>]*\/>/g,
+            (reference) =>
+                `${reference}<w:footerReference w:type="default" r:id="${TEMPLATE_FOOTER_ID}"/>`
+        );
+        zip.file("word/document.xml", document);
+    }
+
+    return zip.generateAsync({ type: "arraybuffer" });
+}
@@ -3,9 +3,11 @@ import * as path from "node:path";
 import * as docx from "docx";
 import { shell } from "electron";
 import { Root } from "mdast";
-import { IDocxProps, ISectionProps, toDocx } from "mdast2docx";
+import { IDocxProps, IPlugin, ISectionProps, toDocx } from "mdast2docx";
 import {
     App,
+    debounce,
+    getAllTags,
     MarkdownView,
     Notice,
     normalizePath,
@@ -18,29 +20,139 @@ import {
 } from "obsidian";
 
 import {
+    findNames,
+    removeNames,
+    removeNamesFromFilename,
+} from "./anonymization";
+import {
+    ConversionOptions,
+    DEFAULT_CONVERSION_OPTIONS,
+    describeMetadataSources,
+    HighlightRule,
+    HighlightRuleType,
     ManuscriptMetadata,
+    MetadataNote,
+    MetadataNotes,
+    MetadataSources,
     NoteInformation,
     obsidianNotesToAST,
+    resolveEmbeds,
+    TagRule,
+    TagRuleType,
 } from "./converters";
 import {
     addFrontMatterPlugin,
+    calloutBlockPlugin,
+    CalloutType,
+    closingMatterPlugin,
+    createManuscriptStyles,
     doubleSpaceAndIndentParas,
+    endnotesPlugin,
+    flattenNestedFootnoteReferences,
+    footnotesPlugin,
+    FrontMatterLines,
+    LowerHeadingRule,
+    LowerHeadingRuleType,
+    manuscriptHeadingPlugin,
+    novelChapterHeadingPlugin,
+    novelTitlePagePlugin,
     shunnThematicBreakPlugin,
+    takeFootnoteDefinitions,
+    underlineEmphasisPlugin,
 } from "./docxPlugins";
+import {
+    applyDocxTemplate,
+    DocxTemplate,
+    readDocxTemplate,
+    TemplatePage,
+} from "./docxTemplate";
 import { downloadsFolder } from "./downloadsFolder";
-import { ConfirmModal } from "./obsidianComponents";
-import { sortChildrenInFileExplorerOrder } from "./obsidianUtilities";
+import {
+    BUILT_IN_PROFILES,
+    expandHeaderPattern,
+    findProfile,
+    FormatProfile,
+    FrontMatterPlacement,
+    FrontMatterPlacementType,
+    HEADER_PAGE_TOKEN,
+    isValidProfileNumber,
+    normalizeProfile,
+    NoteStyle,
+    NoteStyleType,
+    PaperSize,
+    PaperSizeType,
+    profileIndent,
+    profileLineSpacing,
+    profilePageSize,
+    SHUNN_CLASSIC_PROFILE,
+    SHUNN_MODERN_PROFILE,
+} from "./profiles";
+import { ConfirmModal, NameReportModal } from "./obsidianComponents";
+import {
+    createEmbedResolver,
+    describeOrderStrategy,
+    findMetadataNote,
+    findStoryFolder,
+    getNotesInStoryOrder,
+} from "./obsidianUtilities";
 import { folderNameToDocxOutfileName } from "./utilities";
+import {
+    CountUnit,
+    CountUnitType,
+    DEFAULT_WORD_COUNT_OPTIONS,
+    describeWordCount,
+    describeWordCountBreakdown,
+    HyphenatedWords,
+    HyphenatedWordsType,
+    WordCountRounding,
+    WordCountRoundingType,
+} from "./wordCount";
+import {
+    StoryWordCount,
+    WORD_COUNT_VIEW_TYPE,
+    WordCountView,
+} from "./wordCountView";
 
 interface ManuscriptumSettings {
     authorName: string;
     authorSurname: string;
     authorContactInformation: string;
     outputDir: string;
+    indexNoteName: string;
+    excludedTags: string[];
+    excludedNoteNames: string[];
+    excludedFolders: string[];
+    highlightRule: HighlightRuleType;
+    tagRule: TagRuleType;
+    chapterHeadingsOnNewPage: boolean;
+    lowerHeadings: LowerHeadingRuleType;
+    excludeHeadingsFromWordCount: boolean;
+    excludeFootnotesFromWordCount: boolean;
+    hyphenatedWords: HyphenatedWordsType;
+    splitOnEmDashes: boolean;
+    wordCountRounding: WordCountRoundingType;
+    countUnit: CountUnitType;
+    language: string;
+    anonymizationNames: string[];
+    profiles: FormatProfile[];
+    defaultProfile: string;
 }
 
 const DEFAULT_SETTINGS: Partial<ManuscriptumSettings> = {
     outputDir: downloadsFolder(),
+    indexNoteName: "Index",
+    highlightRule: DEFAULT_CONVERSION_OPTIONS.highlights,
+    tagRule: DEFAULT_CONVERSION_OPTIONS.tags,
+    chapterHeadingsOnNewPage: false,
+    lowerHeadings: LowerHeadingRule.SceneTitle,
+    excludeHeadingsFromWordCount: DEFAULT_WORD_COUNT_OPTIONS.excludeHeadings,
+    excludeFootnotesFromWordCount: DEFAULT_WORD_COUNT_OPTIONS.excludeFootnotes,
+    hyphenatedWords: DEFAULT_WORD_COUNT_OPTIONS.hyphenatedWords,
+    splitOnEmDashes: DEFAULT_WORD_COUNT_OPTIONS.splitOnEmDashes,
+    wordCountRounding: WordCountRounding.Shunn,
+    countUnit: DEFAULT_WORD_COUNT_OPTIONS.unit,
+    language: "",
+    defaultProfile: SHUNN_MODERN_PROFILE.name,
 };
 
 /**
@@ -51,8 +163,100 @@ const SettingTitles = {
     AuthorSurname: "Author surname",
     AuthorContactInformation: "Author contact information",
     OutputDir: "Output directory",
+    IndexNoteName: "Index note",
+    ExcludedTags: "Excluded tags",
+    ExcludedNoteNames: "Excluded notes",
+    ExcludedFolders: "Excluded subfolders",
+    HighlightRule: "Highlighted text",
+    TagRule: "Inline tags",
+    ChapterHeadingsOnNewPage: "Start chapters on a new page",
+    LowerHeadings: "Lower headings",
+    ExcludeHeadingsFromWordCount: "Leave headings out of the word count",
+    ExcludeFootnotesFromWordCount: "Leave footnotes out of the word count",
+    HyphenatedWords: "Hyphenated words",
+    SplitOnEmDashes: "Split words on em dashes",
+    WordCountRounding: "Word count rounding",
+    CountUnit: "Count",
+    Language: "Language",
+    AnonymizationNames: "Names to remove",
+    DefaultProfile: "Default format profile",
+} as const;
+
+/**
+ * Kinds of manuscripts we can create.
+ */
+const ManuscriptType = {
+    ShortStory: "shortStory",
+    Novel: "novel",
 } as const;
 
+type ManuscriptTypeType = (typeof ManuscriptType)[keyof typeof ManuscriptType];
+
+/**
+ * How to export a manuscript.
+ */
+interface ExportOptions {
+    /**
+     * Whether or not to anonymize the MS.
+     */
+    anonymize: boolean;
+    /**
+     * Kind of manuscript to create.
+     */
+    manuscriptType: ManuscriptTypeType;
+    /**
+     * Name of the format profile to use regardless of the story's profile property.
+     */
+    profile?: string;
+}
+
+/**
+ * Export commands, which are available both in the command palette
+ * and in the file pane context menu.
+ */
+const ExportCommands: readonly {
+    id: string;
+    name: string;
+    options: ExportOptions;
+}[] = [
+    {
+        id: "save-as-manuscript",
+        name: "Save as manuscript",
+        options: {
+            anonymize: false,
+            manuscriptType: ManuscriptType.ShortStory,
+        },
+    },
+    {
+        id: "save-as-anon-manuscript",
+        name: "Save as anonymous manuscript",
+        options: { anonymize: true, manuscriptType: ManuscriptType.ShortStory },
+    },
+    {
+        id: "save-as-classic-manuscript",
+        name: "Save as manuscript (Shunn classic)",
+        options: {
+            anonymize: false,
+            manuscriptType: ManuscriptType.ShortStory,
+            profile: SHUNN_CLASSIC_PROFILE.name,
+        },
+    },
+    {
+        id: "save-as-anon-classic-manuscript",
+        name: "Save as anonymous manuscript (Shunn classic)",
+        options: {
+            anonymize: true,
+            manuscriptType: ManuscriptType.ShortStory,
+            profile: SHUNN_CLASSIC_PROFILE.name,
+        },
+    },
+    {
+        id: "save-as-novel-manuscript",
+        name: "Save as novel manuscript",
+        options: { anonymize: false, manuscriptType: ManuscriptType.Novel },
+    },
+];
+
 /**
  * Create a selector ID for a setting.
  * @param plugin Plugin.
@@ -66,6 +270,8 @@ function createSettingId(plugin: Plugin, settingTitle: string): string {
 export default class ManuscriptumPlugin extends Plugin {
     settings: ManuscriptumSettings;
 
+    private wordCountStatusBarEl: HTMLElement | undefined;
+
     async onload() {
         await this.loadSettings();
 
@@ -74,6 +280,48 @@ export default class ManuscriptumPlugin extends Plugin {
         this.addManuscriptumContextMenuItems();
 
         this.addManuscriptumCommands();
+
+        this.addWordCount();
+    }
+
+    /**
+     * Add the word count view and status bar item, and keep them up to date.
+     */
+    addWordCount() {
+        this.registerView(
+            WORD_COUNT_VIEW_TYPE,
+            (leaf) => new WordCountView(leaf)
+        );
+        this.wordCountStatusBarEl = this.addStatusBarItem();
+
+        this.addCommand({
+            id: "show-word-count",
+            name: "Show manuscript word count",
+            callback: () => {
+                this.activateWordCountView().catch(
+                    (reason) =>
+                        new Notice(`Failed to show the word count: ${reason}`)
+                );
+            },
+        });
+
+        // Counting reads every note in the story, so wait for typing to pause
+        const refresh = debounce(
+            () => {
+                this.refreshWordCount().catch((reason) =>
+                    console.error("Failed to count words:", reason)
+                );
+            },
+            1000,
+            true
+        );
+        this.registerEvent(this.app.workspace.on("file-open", refresh));
+        this.registerEvent(this.app.vault.on("modify", refresh));
+        this.registerEvent(this.app.vault.on("create", refresh));
+        this.registerEvent(this.app.vault.on("delete", refresh));
+        this.registerEvent(this.app.vault.on("rename", refresh));
+        this.registerEvent(this.app.metadataCache.on("changed", refresh));
+        this.app.workspace.onLayoutReady(refresh);
     }
 
     onunload() {}
@@ -84,6 +332,20 @@ export default class ManuscriptumPlugin extends Plugin {
             DEFAULT_SETTINGS,
             await this.loadData()
         );
+        this.settings.anonymizationNames = [
+            ...(this.settings.anonymizationNames ?? []),
+        ];
+        this.settings.excludedTags = [...(this.settings.excludedTags ?? [])];
+        this.settings.excludedNoteNames = [
+            ...(this.settings.excludedNoteNames ?? []),
+        ];
+        this.settings.excludedFolders = [
+            ...(this.settings.excludedFolders ?? []),
+        ];
+        // Fill in any missing profile values (and avoid sharing arrays with the defaults)
+        this.settings.profiles = (this.settings.profiles ?? []).map((p) =>
+            normalizeProfile(p)
+        );
     }
 
     async saveSettings() {
@@ -93,16 +355,16 @@ export default class ManuscriptumPlugin extends Plugin {
     /**
      * Handle context menu items.
      * @param node Obsidian folder or file that was right-clicked on.
-     * @param anonymize Whether or not to anonymize the MS.
+     * @param options How to export the manuscript.
      */
-    onContextClick(node: TFolder | TFile | null, anonymize: boolean) {
+    onContextClick(node: TFolder | TFile | null, options: ExportOptions) {
         // If we're run on a file, find the containing folder
         if (node instanceof TFile) {
             node = node.parent;
         }
 
         if (node instanceof TFolder) {
-            this.saveAsManuscript(node, anonymize).catch(
+            this.saveAsManuscript(node, options).catch(
                 (reason) =>
                     new Notice(`Failed to save the manuscript: ${reason}`)
             );
@@ -121,18 +383,15 @@ export default class ManuscriptumPlugin extends Plugin {
                     (file instanceof TFile && file.extension === "md") ||
                     file instanceof TFolder
                 ) {
-                    menu.addItem((item) => {
-                        item.setTitle("Save as manuscript (Shunn modern)")
-                            .setIcon("book-text") // Lucide icon name
-                            .onClick(() => this.onContextClick(file, false));
-                    });
-                    menu.addItem((item) => {
-                        item.setTitle(
-                            "Save as anonymous manuscript (Shunn modern)"
-                        )
-                            .setIcon("book-text") // Lucide icon name
-                            .onClick(() => this.onContextClick(file, true));
-                    });
+                    for (const command of ExportCommands) {
+                        menu.addItem((item) => {
+                            item.setTitle(command.name)
+                                .setIcon("book-text") // Lucide icon name
+                                .onClick(() =>
+                                    this.onContextClick(file, command.options)
+                                );
+                        });
+                    }
                 }
             })
         );
@@ -141,12 +400,12 @@ export default class ManuscriptumPlugin extends Plugin {
     /**
      * Callback for whether Manuscriptum commands are allowed, and how to handle them if allowed.
      * @param checking Whether we're checking that a command is valid or executing the command.
-     * @param anonymize Whether or not to anonymize the MS.
+     * @param options How to export the manuscript.
      * @returns True if the command should be allowed; false or void otherwise.
      */
     commandCheckCallback(
         checking: boolean,
-        anonymize: boolean
+        options: ExportOptions
     ): boolean | void {
         // Only available in a Markdown view
         const markdownView =
@@ -156,7 +415,7 @@ export default class ManuscriptumPlugin extends Plugin {
                 if (markdownView.file.parent instanceof TFolder) {
                     this.saveAsManuscript(
                         markdownView.file.parent,
-                        anonymize
+                        options
                     ).catch(
                         (reason) =>
                             new Notice(
@@ -179,18 +438,14 @@ export default class ManuscriptumPlugin extends Plugin {
      * Add commands when a note is open.
      */
     addManuscriptumCommands() {
-        this.addCommand({
-            id: "save-as-manuscript",
-            name: "Save as manuscript (Shunn modern)",
-            checkCallback: (checking: boolean) =>
-                this.commandCheckCallback(checking, false),
-        });
-        this.addCommand({
-            id: "save-as-anon-manuscript",
-            name: "Save as anonymous manuscript (Shunn modern)",
-            checkCallback: (checking: boolean) =>
-                this.commandCheckCallback(checking, true),
-        });
+        for (const command of ExportCommands) {
+            this.addCommand({
+                id: command.id,
+                name: command.name,
+                checkCallback: (checking: boolean) =>
+                    this.commandCheckCallback(checking, command.options),
+            });
+        }
     }
 
     /**
@@ -203,35 +458,33 @@ export default class ManuscriptumPlugin extends Plugin {
         setting.openTabById(this.manifest.id);
     }
 
-    async saveAsManuscript(folder: TFolder, anonymize = false) {
-        const metadata: ManuscriptMetadata = {
-            title: folder.name,
-            filename: folderNameToDocxOutfileName(folder.name),
-            outdir: this.settings.outputDir.trim(),
-            author: this.settings.authorName.trim(),
-            surname: this.settings.authorSurname.trim(),
-            contact: this.settings.authorContactInformation.trim(),
-        };
-        const origOutdir = metadata.outdir; // To keep track
+    /**
+     * Save a story folder as a manuscript.
+     * @param folder Folder containing the story's notes.
+     * @param options How to export the manuscript.
+     */
+    async saveAsManuscript(folder: TFolder, options: ExportOptions) {
+        const [metadata, sources] = this.createMetadata(folder);
 
-        const notes = sortChildrenInFileExplorerOrder(
-            this.app.workspace,
-            folder.children
-        ).filter((f) => f instanceof TFile && f.extension === "md") as TFile[];
-        // TODO handle too-large number of notes (is the user sure? maybe make that a setting)
+        const readNotices: string[] = [];
+        const notesInfo = await this.readStoryNotes(folder, readNotices);
 
-        const notesInfo = await Promise.all(
-            notes.map(async (n): Promise<NoteInformation> => {
-                return {
-                    name: n.name,
-                    content: await this.app.vault.cachedRead(n),
-                    frontmatter:
-                        this.app.metadataCache.getFileCache(n)?.frontmatter,
-                };
-            })
+        const [tree, notices, wordCounts] = obsidianNotesToAST(
+            notesInfo,
+            metadata,
+            this.createConversionOptions(),
+            this.readMetadataNotes(folder, notesInfo),
+            sources
+        );
+        notices.unshift(...readNotices);
+        notices.push(
+            describeMetadataSources(metadata, sources),
+            describeWordCountBreakdown(
+                wordCounts,
+                metadata.wordcount ?? 0,
+                this.settings.countUnit
+            )
         );
-
-        const [tree, notices] = obsidianNotesToAST(notesInfo, metadata);
 
         if (tree === undefined) {
             new Notice(
@@ -240,16 +493,19 @@ export default class ManuscriptumPlugin extends Plugin {
             return;
         }
 
+        // A story can ask to always be anonymized
+        const anonymize = options.anonymize || metadata.anonymous === true;
+        options = { ...options, anonymize: anonymize };
+
         if (notices.length) {
             for (const notice of notices) {
                 new Notice(notice);
             }
         }
 
-        // We need to know if our output dir changed, because if it
-        // doesn't exist, we need to indicate where the source of the
-        // error is (either settings or frontmatter)
-        const outdirFromSettings = metadata.outdir === origOutdir;
+        // If our output dir doesn't exist, we need to indicate where the
+        // source of the error is (either settings or a note's properties)
+        const outdirFromSettings = sources.outdir === "settings";
 
         // Now that metadata is fully filled in, normalize the outdir
         metadata.outdir = normalizePath(metadata.outdir);
@@ -274,7 +530,7 @@ export default class ManuscriptumPlugin extends Plugin {
                 missingSettings.push(SettingTitles.OutputDir);
             } else {
                 new Notice(
-                    `Output directory defined in frontmatter doesn't exist: ${metadata.outdir}`
+                    `Output directory defined in ${sources.outdir} doesn't exist: ${metadata.outdir}`
                 );
             }
         }
@@ -299,6 +555,15 @@ export default class ManuscriptumPlugin extends Plugin {
             return;
         }
 
+        const profile = this.getProfile(options.profile ?? metadata.profile);
+
+        // Collect names to scrub before the author's information is removed
+        const names = [
+            metadata.author ?? "",
+            metadata.surname ?? "",
+            ...this.settings.anonymizationNames,
+        ].filter((name) => name.trim() !== "");
+
         // If any of our author/contact info is empty, or if we're anonymizing, mark as undefined
         if (metadata.author === "" || anonymize) {
             metadata.author = undefined;
@@ -310,7 +575,93 @@ export default class ManuscriptumPlugin extends Plugin {
             metadata.contact = undefined;
         }
 
-        const docxArrayBuffer = await this.storyMdToDocx(tree, metadata);
+        if (anonymize) {
+            metadata.filename = removeNamesFromFilename(
+                metadata.filename,
+                names
+            );
+            const matches = findNames(tree, names);
+            if (matches.length > 0) {
+                const write = () =>
+                    this.writeManuscript(
+                        tree,
+                        metadata,
+                        profile,
+                        options
+                    ).catch(
+                        (reason) =>
+                            new Notice(
+                                `Failed to save the manuscript: ${reason}`
+                            )
+                    );
+                new NameReportModal(
+                    this.app,
+                    matches,
+                    () => {
+                        removeNames(tree, names);
+                        write();
+                    },
+                    write
+                ).open();
+                return;
+            }
+        }
+
+        await this.writeManuscript(tree, metadata, profile, options);
+    }
+
+    /**
+     * Turn a manuscript's Markdown into a docx file and write it,
+     * checking with the user before overwriting an existing file.
+     * @param tree Markdown abstract syntax tree for the manuscript.
+     * @param metadata Manuscript metadata.
+     * @param profile Format profile.
+     * @param options How to export the manuscript.
+     */
+    private async writeManuscript(
+        tree: Root,
+        metadata: ManuscriptMetadata,
+        profile: FormatProfile,
+        options: ExportOptions
+    ) {
+        const { anonymize, manuscriptType } = options;
+        let template: DocxTemplate | undefined;
+        if (profile.template.trim() !== "") {
+            template = await this.readTemplate(profile);
+            if (template === undefined) return;
+            // The template's header and footer could hold the author's or
+            // agent's name, so blind submissions keep the anonymous header
+            if (anonymize) {
+                template = {
+                    ...template,
+                    header: undefined,
+                    footer: undefined,
+                };
+            }
+        }
+
+        let docxArrayBuffer =
+            manuscriptType === ManuscriptType.Novel
+                ? await this.novelMdToDocx(
+                      tree,
+                      metadata,
+                      profile,
+                      anonymize,
+                      template?.page
+                  )
+                : await this.storyMdToDocx(
+                      tree,
+                      metadata,
+                      profile,
+                      anonymize,
+                      template?.page
+                  );
+        if (template !== undefined) {
+            docxArrayBuffer = await applyDocxTemplate(
+                docxArrayBuffer,
+                template
+            );
+        }
 
         const outFullPath = path.join(metadata.outdir, metadata.filename);
         if (fs.existsSync(outFullPath)) {
@@ -328,92 +679,660 @@ export default class ManuscriptumPlugin extends Plugin {
         }
     }
 
+    /**
+     * Read a format profile's reference .docx, notifying the user of any problems.
+     * @param profile Format profile with a template.
+     * @returns The template's formatting, or undefined if it couldn't be read.
+     */
+    private async readTemplate(
+        profile: FormatProfile
+    ): Promise<DocxTemplate | undefined> {
+        const templatePath = normalizePath(profile.template.trim());
+        const file = this.app.vault.getAbstractFileByPath(templatePath);
+        if (!(file instanceof TFile)) {
+            new Notice(
+                `Couldn't find the template for format profile "${profile.name}": ${templatePath}`
+            );
+            return undefined;
+        }
+        let template: DocxTemplate;
+        try {
+            template = await readDocxTemplate(
+                await this.app.vault.readBinary(file)
+            );
+        } catch (e) {
+            new Notice(
+                `Couldn't use the template ${templatePath}: it ${e instanceof Error ? e.message : e}`
+            );
+            return undefined;
+        }
+        for (const warning of template.warnings) {
+            new Notice(warning);
+        }
+        return template;
+    }
+
+    /**
+     * Create a story's manuscript metadata from the plugin's settings.
+     * @param folder Folder containing the story's notes.
+     * @returns Tuple of the metadata and where each value came from.
+     */
+    private createMetadata(
+        folder: TFolder
+    ): [ManuscriptMetadata, MetadataSources] {
+        const metadata: ManuscriptMetadata = {
+            title: folder.name,
+            filename: folderNameToDocxOutfileName(folder.name),
+            outdir: this.settings.outputDir.trim(),
+            author: this.settings.authorName.trim(),
+            surname: this.settings.authorSurname.trim(),
+            contact: this.settings.authorContactInformation.trim(),
+            lang: this.settings.language.trim() || undefined,
+        };
+        const sources: MetadataSources = {
+            title: "folder name",
+            filename: "folder name",
+            outdir: "settings",
+            author: "settings",
+            surname: "settings",
+            contact: "settings",
+        };
+        if (metadata.lang !== undefined) {
+            sources.lang = "settings";
+        }
+        return [metadata, sources];
+    }
+
+    /**
+     * Find the metadata notes that a story's manuscript properties cascade from.
+     * @param folder Folder containing the story's notes.
+     * @param notesInfo Story's notes. If the story's metadata note is its
+     *                  only note, it's treated as an ordinary note.
+     * @returns The story's metadata note and its parent folders' metadata notes.
+     */
+    private readMetadataNotes(
+        folder: TFolder,
+        notesInfo: NoteInformation[]
+    ): MetadataNotes {
+        const toMetadataNote = (file: TFile | undefined) =>
+            file === undefined
+                ? undefined
+                : {
+                      path: file.path,
+                      frontmatter:
+                          this.app.metadataCache.getFileCache(file)
+                              ?.frontmatter,
+                  };
+
+        const folderNotes: MetadataNote[] = [];
+        for (
+            let parent = folder.parent;
+            parent !== null;
+            parent = parent.parent
+        ) {
+            const note = toMetadataNote(findMetadataNote(parent));
+            if (note !== undefined) folderNotes.unshift(note);
+        }
+        const storyNote = findMetadataNote(folder);
+        const isOnlyNote =
+            notesInfo.length === 1 &&
+            notesInfo[0].name === storyNote?.name &&
+            (notesInfo[0].folders ?? []).length === 0;
+        return {
+            folderNotes: folderNotes,
+            storyNote: isOnlyNote ? undefined : toMetadataNote(storyNote),
+        };
+    }
+
+    /**
+     * Read a story's notes in manuscript order, with their embeds resolved.
+     * @param folder Folder containing the story's notes.
+     * @param notices Array to add notices about the notes' order and embeds to.
+     * @returns Information about the notes.
+     */
+    private async readStoryNotes(
+        folder: TFolder,
+        notices: string[]
+    ): Promise<NoteInformation[]> {
+        const {
+            notes,
+            strategy,
+            notices: orderNotices,
+        } = getNotesInStoryOrder(
+            folder,
+            this.app.vault,
+            this.app.metadataCache,
+            this.settings.indexNoteName
+        );
+        notices.push(
+            describeOrderStrategy(strategy, this.settings.indexNoteName),
+            ...orderNotices
+        );
+        // TODO handle too-large number of notes (is the user sure? maybe make that a setting)
+
+        // The metadata note holds properties rather than text, unless
+        // it's the story's only note
+        const metadataNote = findMetadataNote(folder);
+        const sceneNotes = notes.filter((n) => n.file !== metadataNote);
+
+        const embedResolver = createEmbedResolver(
+            this.app.vault,
+            this.app.metadataCache
+        );
+        return await Promise.all(
+            (sceneNotes.length > 0 ? sceneNotes : notes).map(
+                async (n): Promise<NoteInformation> => {
+                    const cache = this.app.metadataCache.getFileCache(n.file);
+                    return {
+                        name: n.file.name,
+                        content: await resolveEmbeds(
+                            await this.app.vault.cachedRead(n.file),
+                            n.file.path,
+                            embedResolver,
+                            notices
+                        ),
+                        frontmatter: cache?.frontmatter,
+                        folders: n.folders,
+                        tags: cache !== null ? (getAllTags(cache) ?? []) : [],
+                    };
+                }
+            )
+        );
+    }
+
+    /**
+     * Create the options for converting notes from the plugin's settings.
+     * @returns The conversion options.
+     */
+    private createConversionOptions(): ConversionOptions {
+        return {
+            highlights: this.settings.highlightRule,
+            tags: this.settings.tagRule,
+            wordCount: {
+                excludeHeadings: this.settings.excludeHeadingsFromWordCount,
+                // Dropped headings aren't in the manuscript
+                excludeLowerHeadings:
+                    this.settings.lowerHeadings === LowerHeadingRule.Drop,
+                excludeFootnotes: this.settings.excludeFootnotesFromWordCount,
+                // Their markers aren't in the manuscript
+                formattedCallouts: Object.values(CalloutType),
+                hyphenatedWords: this.settings.hyphenatedWords,
+                splitOnEmDashes: this.settings.splitOnEmDashes,
+                unit: this.settings.countUnit,
+            },
+            exclusions: {
+                tags: this.settings.excludedTags,
+                names: this.settings.excludedNoteNames,
+                folders: this.settings.excludedFolders,
+            },
+        };
+    }
+
+    /**
+     * Count the words in a story folder the same way saving it as a manuscript would.
+     * @param folder Folder containing the story's notes.
+     * @returns The story's word count.
+     */
+    async countStory(folder: TFolder): Promise<StoryWordCount> {
+        const [metadata] = this.createMetadata(folder);
+        const notesInfo = await this.readStoryNotes(folder, []);
+        const [, , wordCounts] = obsidianNotesToAST(
+            notesInfo,
+            metadata,
+            this.createConversionOptions(),
+            this.readMetadataNotes(folder, notesInfo)
+        );
+        const total = metadata.wordcount ?? 0;
+        // A story with chapters is counted the way a novel manuscript would be
+        const isNovel = notesInfo.some(
+            (info) => (info.folders ?? []).length !== 0
+        );
+        return {
+            title: metadata.title,
+            total: total,
+            description: describeWordCount(
+                total,
+                this.settings.wordCountRounding,
+                isNovel,
+                this.settings.countUnit
+            ),
+            wordCounts: wordCounts,
+            unit: this.settings.countUnit,
+        };
+    }
+
+    /**
+     * Update the word count view and status bar for the active note's story.
+     */
+    async refreshWordCount() {
+        const folder = this.app.workspace.getActiveFile()?.parent;
+        // Don't count the whole vault when a note isn't in a story folder
+        const storyCount =
+            folder && !folder.isRoot()
+                ? await this.countStory(
+                      findStoryFolder(
+                          folder,
+                          this.app.metadataCache,
+                          this.settings.indexNoteName
+                      )
+                  )
+                : undefined;
+
+        this.wordCountStatusBarEl?.setText(storyCount?.description ?? "");
+        for (const leaf of this.app.workspace.getLeavesOfType(
+            WORD_COUNT_VIEW_TYPE
+        )) {
+            if (leaf.view instanceof WordCountView) {
+                leaf.view.setStoryCount(storyCount);
+            }
+        }
+    }
+
+    /**
+     * Open the word count view in the right sidebar, or reveal it if it's already open.
+     */
+    async activateWordCountView() {
+        const { workspace } = this.app;
+        let leaf = workspace.getLeavesOfType(WORD_COUNT_VIEW_TYPE)[0];
+        if (leaf === undefined) {
+            const rightLeaf = workspace.getRightLeaf(false);
+            if (rightLeaf === null) return;
+            leaf = rightLeaf;
+            await leaf.setViewState({
+                type: WORD_COUNT_VIEW_TYPE,
+                active: true,
+            });
+        }
+        await workspace.revealLeaf(leaf);
+        await this.refreshWordCount();
+    }
+
+    /**
+     * Get a format profile, falling back to the default profile.
+     * @param name Name of the profile, or undefined for the default profile.
+     * @returns The format profile.
+     */
+    getProfile(name?: string): Readonly<FormatProfile> {
+        const profileName = name ?? this.settings.defaultProfile;
+        const profile = findProfile(profileName, this.settings.profiles);
+        if (profile !== undefined) {
+            return profile;
+        }
+        new Notice(
+            `Format profile "${profileName}" not found. Using "${SHUNN_MODERN_PROFILE.name}".`
+        );
+        return SHUNN_MODERN_PROFILE;
+    }
+
     /**
      * Turn a story's Markdown into the contents of a docx file.
      * @param tree Markdown abstract syntax tree for the story.
      * @param metadata Manuscript metadata.
+     * @param profile Format profile.
+     * @param anonymize Whether or not the MS is anonymized.
+     * @param templatePage Page size and margins from the profile's template, if it has one.
      * @returns Docx content.
      */
-    private async storyMdToDocx(tree: Root, metadata: ManuscriptMetadata) {
-        // If wordcount < 1,000, give exact wordcount. Otherwise, round to nearest 1,000
-        let wordcountDesc = "";
-        if (metadata.wordcount) {
-            if (metadata.wordcount < 1000) {
-                wordcountDesc = `${metadata.wordcount.toLocaleString()} words`;
-            } else {
-                wordcountDesc = `about ${(Math.round(metadata.wordcount / 100) * 100).toLocaleString()} words`;
-            }
-        }
+    private async storyMdToDocx(
+        tree: Root,
+        metadata: ManuscriptMetadata,
+        profile: FormatProfile,
+        anonymize: boolean,
+        templatePage?: TemplatePage
+    ) {
+        const wordcountDesc = metadata.wordcount
+            ? describeWordCount(
+                  metadata.wordcount,
+                  this.settings.wordCountRounding,
+                  false,
+                  this.settings.countUnit
+              )
+            : "";
 
-        const docProps: IDocxProps = {
-            title: metadata.title,
-            styles: {
-                default: {
-                    document: {
-                        run: {
-                            font: "Times New Roman",
-                            size: "12pt",
-                        },
+        const sectionProps: ISectionProps = {
+            properties: {
+                page: {
+                    ...this.createPageProperties(profile, templatePage),
+                    pageNumbers: {
+                        start: 1,
+                        formatType: docx.NumberFormat.DECIMAL,
                     },
                 },
+                titlePage: true, // So we get a page with no header
+            },
+            headers: {
+                default: this.createHeader(metadata, profile, anonymize),
             },
+            plugins: [
+                ...(profile.underlineEmphasis
+                    ? [underlineEmphasisPlugin()]
+                    : []),
+                doubleSpaceAndIndentParas(),
+                ...this.createCalloutPlugins(),
+                shunnThematicBreakPlugin(true, profile.sceneBreak),
+                manuscriptHeadingPlugin(
+                    this.settings.chapterHeadingsOnNewPage,
+                    this.settings.lowerHeadings
+                ),
+                addFrontMatterPlugin(
+                    metadata.title,
+                    wordcountDesc,
+                    metadata.author,
+                    metadata.contact,
+                    this.createFrontMatterLines(metadata, profile)
+                ),
+                ...this.createClosingMatterPlugins(metadata, profile),
+                // After the closing matter, so the notes follow "END"
+                this.createNotesPlugin(tree, profile),
+            ],
+            footnoteProps: { style: "FootnoteText" },
         };
+
+        const docxArrayBuffer = (await toDocx(
+            tree,
+            this.createDocxProps(metadata, profile, anonymize),
+            sectionProps,
+            "arraybuffer"
+        )) as ArrayBuffer;
+        return docxArrayBuffer;
+    }
+
+    /**
+     * Turn a novel's Markdown into the contents of a docx file.
+     *
+     * Unlike a short story, a novel gets a standalone title page, and
+     * each part and chapter starts on a new page.
+     *
+     * @param tree Markdown abstract syntax tree for the novel.
+     * @param metadata Manuscript metadata.
+     * @param profile Format profile.
+     * @param anonymize Whether or not the MS is anonymized.
+     * @param templatePage Page size and margins from the profile's template, if it has one.
+     * @returns Docx content.
+     */
+    private async novelMdToDocx(
+        tree: Root,
+        metadata: ManuscriptMetadata,
+        profile: FormatProfile,
+        anonymize: boolean,
+        templatePage?: TemplatePage
+    ) {
+        const wordcountDesc = metadata.wordcount
+            ? describeWordCount(
+                  metadata.wordcount,
+                  this.settings.wordCountRounding,
+                  true,
+                  this.settings.countUnit
+              )
+            : "";
+
+        // Start chapters about a third of the way down the page
+        const pageProperties = this.createPageProperties(profile, templatePage);
+        const chapterDrop = Math.max(
+            pageProperties.size.height / 3 - pageProperties.margin.top,
+            0
+        );
+
         const sectionProps: ISectionProps = {
             properties: {
                 page: {
-                    margin: {
-                        top: "1in",
-                        right: "1in",
-                        bottom: "1in",
-                        left: "1in",
-                    },
+                    ...pageProperties,
                     pageNumbers: {
                         start: 1,
                         formatType: docx.NumberFormat.DECIMAL,
                     },
                 },
-                titlePage: true, // So we get a page with no header
             },
             headers: {
-                default: new docx.Header({
-                    children: [
-                        new docx.Paragraph({
-                            children: [
-                                new docx.TextRun({
-                                    children: [
-                                        metadata.surname !== undefined
-                                            ? `${metadata.surname} / `
-                                            : "" + `${metadata.title} / `,
-                                        docx.PageNumber.CURRENT,
-                                    ],
-                                }),
-                            ],
-                            alignment: "right",
-                        }),
-                    ],
-                }),
+                default: this.createHeader(metadata, profile, anonymize),
             },
             plugins: [
+                ...(profile.underlineEmphasis
+                    ? [underlineEmphasisPlugin()]
+                    : []),
                 doubleSpaceAndIndentParas(),
-                shunnThematicBreakPlugin(true),
-                addFrontMatterPlugin(
+                ...this.createCalloutPlugins(),
+                shunnThematicBreakPlugin(true, profile.sceneBreak),
+                novelChapterHeadingPlugin(chapterDrop),
+                manuscriptHeadingPlugin(true, this.settings.lowerHeadings),
+                novelTitlePagePlugin(
                     metadata.title,
                     wordcountDesc,
                     metadata.author,
-                    metadata.contact
+                    metadata.contact,
+                    this.createFrontMatterLines(metadata, profile),
+                    { page: pageProperties }
                 ),
+                ...this.createClosingMatterPlugins(metadata, profile),
+                // After the closing matter, so the notes follow "END"
+                this.createNotesPlugin(tree, profile),
             ],
+            footnoteProps: { style: "FootnoteText" },
         };
 
         const docxArrayBuffer = (await toDocx(
             tree,
-            docProps,
+            this.createDocxProps(metadata, profile, anonymize),
             sectionProps,
             "arraybuffer"
         )) as ArrayBuffer;
         return docxArrayBuffer;
     }
 
+    /**
+     * Create the document-wide docx properties.
+     * @param metadata Manuscript metadata.
+     * @param profile Format profile.
+     * @param anonymize Whether or not the MS is anonymized.
+     * @returns Docx properties.
+     */
+    private createDocxProps(
+        metadata: ManuscriptMetadata,
+        profile: FormatProfile,
+        anonymize: boolean
+    ): IDocxProps {
+        const customProperties = Object.entries({
+            ...(metadata.wordcount
+                ? { "Word count": metadata.wordcount.toString() }
+                : {}),
+            ...(metadata.rights?.length
+                ? { Rights: metadata.rights.join(", ") }
+                : {}),
+            ...(metadata.contentwarnings?.length
+                ? { "Content warnings": metadata.contentwarnings.join(", ") }
+                : {}),
+            ...metadata.docproperties,
+        }).map(([name, value]) => ({ name, value }));
+
+        // A blank author keeps docx from putting its own default in
+        const author = anonymize ? "" : (metadata.author ?? "");
+        return {
+            title: metadata.title,
+            subject: metadata.genre,
+            keywords: metadata.tags?.join(", "),
+            description: metadata.description,
+            creator: author,
+            lastModifiedBy: author,
+            customProperties: customProperties,
+            styles: {
+                paragraphStyles: createManuscriptStyles(
+                    profileLineSpacing(profile),
+                    profileIndent(profile),
+                    profile.paginationControl
+                ),
+                default: {
+                    document: {
+                        run: {
+                            font: profile.font,
+                            size: `${profile.fontSize}pt`,
+                            // So Word spell checks in the right language
+                            ...(metadata.lang
+                                ? {
+                                      language: {
+                                          value: metadata.lang,
+                                          eastAsia: metadata.lang,
+                                      },
+                                  }
+                                : {}),
+                        },
+                    },
+                    // Single-spaced footnotes in the manuscript's font
+                    footnoteText: {
+                        run: {
+                            font: profile.font,
+                            size: `${profile.fontSize}pt`,
+                        },
+                        paragraph: {
+                            spacing: {
+                                before: 0,
+                                after: 0,
+                                line: 240,
+                                lineRule: docx.LineRuleType.AUTO,
+                            },
+                        },
+                    },
+                },
+            },
+        };
+    }
+
+    /**
+     * Create the front matter's lines for the rights offered, the reprint
+     * credit and the content warnings.
+     * @param metadata Manuscript metadata.
+     * @param profile Format profile.
+     * @returns The lines and where to put them.
+     */
+    private createFrontMatterLines(
+        metadata: ManuscriptMetadata,
+        profile: FormatProfile
+    ): FrontMatterLines {
+        const lines = [...(metadata.rights ?? [])];
+        if (metadata.reprint !== undefined) {
+            lines.push(metadata.reprint);
+        }
+        if (metadata.contentwarnings?.length) {
+            lines.push(
+                `Content warnings: ${metadata.contentwarnings.join(", ")}`
+            );
+        }
+        return { lines: lines, placement: profile.frontMatterPlacement };
+    }
+
+    /**
+     * Create the plugin that exports footnotes the way the profile says to.
+     * This changes the tree's footnotes the way mdast2docx needs them
+     * changed before it converts the tree.
+     * @param tree Markdown AST for the manuscript.
+     * @param profile Format profile.
+     * @returns The plugin.
+     */
+    private createNotesPlugin(tree: Root, profile: FormatProfile): IPlugin {
+        if (profile.notes !== NoteStyle.Endnotes) {
+            flattenNestedFootnoteReferences(tree);
+            return footnotesPlugin();
+        }
+
+        return endnotesPlugin(takeFootnoteDefinitions(tree), "Notes", [
+            ...(profile.underlineEmphasis ? [underlineEmphasisPlugin()] : []),
+            doubleSpaceAndIndentParas(),
+        ]);
+    }
+
+    /**
+     * Create the plugins that format epigraph, letter and document callouts.
+     * Epigraphs are indented an inch and letters and documents half an inch,
+     * whatever the profile's paragraph indent.
+     * @returns The plugins.
+     */
+    private createCalloutPlugins(): IPlugin[] {
+        return [
+            calloutBlockPlugin(
+                CalloutType.Epigraph,
+                docx.convertInchesToTwip(1)
+            ),
+            calloutBlockPlugin(CalloutType.Letter),
+            calloutBlockPlugin(CalloutType.Document),
+        ];
+    }
+
+    /**
+     * Create the plugins that add closing matter to a manuscript.
+     * @param metadata Manuscript metadata.
+     * @param profile Format profile.
+     * @returns The plugins, if any.
+     */
+    private createClosingMatterPlugins(
+        metadata: ManuscriptMetadata,
+        profile: FormatProfile
+    ): IPlugin[] {
+        const endMarker = metadata.endmarker ?? profile.endMarker;
+        if (endMarker.trim() === "") return [];
+        return [closingMatterPlugin(endMarker)];
+    }
+
+    /**
+     * Create the page size and margins for a manuscript.
+     * @param profile Format profile.
+     * @param templatePage Page size and margins from the profile's template,
+     *                     which take the place of the profile's.
+     * @returns Page size and margins in twips.
+     */
+    private createPageProperties(
+        profile: FormatProfile,
+        templatePage?: TemplatePage
+    ): TemplatePage {
+        if (templatePage !== undefined) return templatePage;
+        const margin = docx.convertInchesToTwip(profile.margin);
+        return {
+            size: profilePageSize(profile),
+            margin: {
+                top: margin,
+                right: margin,
+                bottom: margin,
+                left: margin,
+            },
+        };
+    }
+
+    /**
+     * Create the manuscript's running header, such as `Surname / Title / page`.
+     * @param metadata Manuscript metadata.
+     * @param profile Format profile whose header pattern to use.
+     * @param anonymize Whether to use the profile's anonymous header pattern.
+     * @returns The header.
+     */
+    private createHeader(
+        metadata: ManuscriptMetadata,
+        profile: FormatProfile,
+        anonymize: boolean
+    ): docx.Header {
+        const pieces = expandHeaderPattern(
+            anonymize ? profile.anonymousHeader : profile.header,
+            {
+                surname: metadata.surname,
+                title: metadata.title,
+                shortTitle: metadata.shorttitle ?? metadata.title,
+            }
+        );
+        return new docx.Header({
+            children: [
+                new docx.Paragraph({
+                    children: [
+                        new docx.TextRun({
+                            children: pieces.map((piece) =>
+                                piece === HEADER_PAGE_TOKEN
+                                    ? docx.PageNumber.CURRENT
+                                    : piece
+                            ),
+                        }),
+                    ],
+                    alignment: "right",
+                }),
+            ],
+        });
+    }
+
     /**
      * Write a docx file, notifying the Obsidian user.
      * @param outPath Path to write the output to.
@@ -566,6 +1485,11 @@ class ManuscriptumSettingTab extends PluginSettingTab {
                 }
             }
         };
+        // TODO if and when Obsidian makes a directory picker available,
+        // look at adding one that can be opened using a "Select directory"
+        // button. As of 2025 12 22, the only way to do it is to create a
+        // webkitdirectory input, which causes hella UI freezes. See commit
+        // `0b5f782` for a previous example
         new Setting(containerEl)
             .setName(SettingTitles.OutputDir)
             .setDesc("Where to put the .docx files")
@@ -580,10 +1504,525 @@ class ManuscriptumSettingTab extends PluginSettingTab {
                     createSettingId(this.plugin, SettingTitles.OutputDir)
                 );
             });
-        // TODO if and when Obsidian makes a directory picker available,
-        // look at adding one that can be opened using a "Select directory"
-        // button. As of 2025 12 22, the only way to do it is to create a
-        // webkitdirectory input, which causes hella UI freezes. See commit
-        // `0b5f782` for a previous example
+        new Setting(containerEl)
+            .setName(SettingTitles.IndexNoteName)
+            .setDesc(
+                "Name of the note in a story folder whose links give the order of the story's notes"
+            )
+            .addText((text) =>
+                text
+                    .setPlaceholder("Example: Index")
+                    .setValue(this.plugin.settings.indexNoteName)
+                    .onChange(async (value) => {
+                        this.plugin.settings.indexNoteName = value;
+                        await this.plugin.saveSettings();
+                    })
+            );
+        this.addListSetting(
+            containerEl,
+            "excludedTags",
+            SettingTitles.ExcludedTags,
+            "Leave out notes with these tags, one per line. Notes whose manuscript property is false are always left out.",
+            "Example: research\noutline"
+        );
+        this.addListSetting(
+            containerEl,
+            "excludedNoteNames",
+            SettingTitles.ExcludedNoteNames,
+            "Leave out notes whose names match these patterns, one per line. * matches any text.",
+            "Example: Outline\n* (cut)"
+        );
+        this.addListSetting(
+            containerEl,
+            "excludedFolders",
+            SettingTitles.ExcludedFolders,
+            "Leave out notes in subfolders whose names match these patterns, one per line. * matches any text.",
+            "Example: Research\nCut scenes"
+        );
+        new Setting(containerEl)
+            .setName(SettingTitles.HighlightRule)
+            .setDesc("What to do with ==highlighted== text")
+            .addDropdown((dropdown) =>
+                dropdown
+                    .addOption(
+                        HighlightRule.KeepText,
+                        "Keep the text, remove the highlight"
+                    )
+                    .addOption(HighlightRule.Highlight, "Keep the highlight")
+                    .addOption(HighlightRule.Remove, "Remove the text")
+                    .setValue(this.plugin.settings.highlightRule)
+                    .onChange(async (value) => {
+                        this.plugin.settings.highlightRule =
+                            value as HighlightRuleType;
+                        await this.plugin.saveSettings();
+                    })
+            );
+        new Setting(containerEl)
+            .setName(SettingTitles.TagRule)
+            .setDesc("What to do with #tags in the text of your notes")
+            .addDropdown((dropdown) =>
+                dropdown
+                    .addOption(TagRule.Remove, "Remove the tag")
+                    .addOption(TagRule.KeepText, "Keep the text without the #")
+                    .addOption(TagRule.Keep, "Keep the tag as-is")
+                    .setValue(this.plugin.settings.tagRule)
+                    .onChange(async (value) => {
+                        this.plugin.settings.tagRule = value as TagRuleType;
+                        await this.plugin.saveSettings();
+                    })
+            );
+        new Setting(containerEl)
+            .setName(SettingTitles.ChapterHeadingsOnNewPage)
+            .setDesc(
+                "Start each level 1 and 2 heading on a new page in short story manuscripts. Novels always start chapters on a new page."
+            )
+            .addToggle((toggle) =>
+                toggle
+                    .setValue(this.plugin.settings.chapterHeadingsOnNewPage)
+                    .onChange(async (value) => {
+                        this.plugin.settings.chapterHeadingsOnNewPage = value;
+                        await this.plugin.saveSettings();
+                    })
+            );
+        new Setting(containerEl)
+            .setName(SettingTitles.LowerHeadings)
+            .setDesc("What to do with level 3 and lower headings")
+            .addDropdown((dropdown) =>
+                dropdown
+                    .addOption(
+                        LowerHeadingRule.SceneTitle,
+                        "Keep them as scene titles"
+                    )
+                    .addOption(LowerHeadingRule.Drop, "Remove them")
+                    .setValue(this.plugin.settings.lowerHeadings)
+                    .onChange(async (value) => {
+                        this.plugin.settings.lowerHeadings =
+                            value as LowerHeadingRuleType;
+                        await this.plugin.saveSettings();
+                    })
+            );
+
+        new Setting(containerEl)
+            .setName(SettingTitles.ExcludeHeadingsFromWordCount)
+            .setDesc("Don't count the words in chapter and scene headings")
+            .addToggle((toggle) =>
+                toggle
+                    .setValue(this.plugin.settings.excludeHeadingsFromWordCount)
+                    .onChange(async (value) => {
+                        this.plugin.settings.excludeHeadingsFromWordCount =
+                            value;
+                        await this.plugin.saveSettings();
+                    })
+            );
+        new Setting(containerEl)
+            .setName(SettingTitles.ExcludeFootnotesFromWordCount)
+            .setDesc("Don't count the words in footnotes and endnotes")
+            .addToggle((toggle) =>
+                toggle
+                    .setValue(
+                        this.plugin.settings.excludeFootnotesFromWordCount
+                    )
+                    .onChange(async (value) => {
+                        this.plugin.settings.excludeFootnotesFromWordCount =
+                            value;
+                        await this.plugin.saveSettings();
+                    })
+            );
+        new Setting(containerEl)
+            .setName(SettingTitles.HyphenatedWords)
+            .setDesc('How to count words like "well-being"')
+            .addDropdown((dropdown) =>
+                dropdown
+                    .addOption(HyphenatedWords.One, "As one word")
+                    .addOption(HyphenatedWords.Separate, "As separate words")
+                    .setValue(this.plugin.settings.hyphenatedWords)
+                    .onChange(async (value) => {
+                        this.plugin.settings.hyphenatedWords =
+                            value as HyphenatedWordsType;
+                        await this.plugin.saveSettings();
+                    })
+            );
+        new Setting(containerEl)
+            .setName(SettingTitles.SplitOnEmDashes)
+            .setDesc("Count words joined by an em dash (— or --) separately")
+            .addToggle((toggle) =>
+                toggle
+                    .setValue(this.plugin.settings.splitOnEmDashes)
+                    .onChange(async (value) => {
+                        this.plugin.settings.splitOnEmDashes = value;
+                        await this.plugin.saveSettings();
+                    })
+            );
+        new Setting(containerEl)
+            .setName(SettingTitles.WordCountRounding)
+            .setDesc("How to round the word count in the manuscript")
+            .addDropdown((dropdown) =>
+                dropdown
+                    .addOption(
+                        WordCountRounding.Shunn,
+                        "Shunn (exact under 1,000, then nearest 100; nearest 1,000 for novels)"
+                    )
+                    .addOption(WordCountRounding.Exact, "Exact")
+                    .addOption(WordCountRounding.Hundred, "Nearest 100")
+                    .addOption(WordCountRounding.FiveHundred, "Nearest 500")
+                    .addOption(WordCountRounding.Thousand, "Nearest 1,000")
+                    .setValue(this.plugin.settings.wordCountRounding)
+                    .onChange(async (value) => {
+                        this.plugin.settings.wordCountRounding =
+                            value as WordCountRoundingType;
+                        await this.plugin.saveSettings();
+                    })
+            );
+        new Setting(containerEl)
+            .setName(SettingTitles.CountUnit)
+            .setDesc(
+                "Whether the manuscript gives its length in words or, for languages like Japanese and Chinese, in characters"
+            )
+            .addDropdown((dropdown) =>
+                dropdown
+                    .addOption(CountUnit.Words, "Words")
+                    .addOption(CountUnit.Characters, "Characters")
+                    .setValue(this.plugin.settings.countUnit)
+                    .onChange(async (value) => {
+                        this.plugin.settings.countUnit = value as CountUnitType;
+                        await this.plugin.saveSettings();
+                    })
+            );
+        new Setting(containerEl)
+            .setName(SettingTitles.Language)
+            .setDesc(
+                "Language of your manuscripts, such as en-US or ja. Used to count words and for spell checking. Leave blank to use your system's language."
+            )
+            .addText((text) =>
+                text
+                    .setPlaceholder("Example: en-US")
+                    .setValue(this.plugin.settings.language)
+                    .onChange(async (value) => {
+                        this.plugin.settings.language = value;
+                        await this.plugin.saveSettings();
+                    })
+            );
+        this.addListSetting(
+            containerEl,
+            "anonymizationNames",
+            SettingTitles.AnonymizationNames,
+            "Names and pseudonyms to remove from anonymous manuscripts, one per line. Your author name and surname are always removed.",
+            "Example: J. R. Simons\nJae Ross"
+        );
+
+        new Setting(containerEl).setName("Format profiles").setHeading();
+        new Setting(containerEl)
+            .setName(SettingTitles.DefaultProfile)
+            .setDesc(
+                "Profile to use unless a story chooses one with the profile property"
+            )
+            .addDropdown((dropdown) => {
+                for (const profile of [
+                    ...BUILT_IN_PROFILES,
+                    ...this.plugin.settings.profiles,
+                ]) {
+                    dropdown.addOption(profile.name, profile.name);
+                }
+                dropdown
+                    .setValue(this.plugin.settings.defaultProfile)
+                    .onChange(async (value) => {
+                        this.plugin.settings.defaultProfile = value;
+                        await this.plugin.saveSettings();
+                    });
+            });
+        for (const profile of this.plugin.settings.profiles) {
+            this.displayProfile(containerEl, profile);
+        }
+        new Setting(containerEl).addButton((button) =>
+            button.setButtonText("Add profile").onClick(async () => {
+                const names = this.plugin.settings.profiles.map((p) => p.name);
+                let name = "New profile";
+                for (let n = 2; names.includes(name); ++n) {
+                    name = `New profile ${n}`;
+                }
+                this.plugin.settings.profiles.push({
+                    ...SHUNN_MODERN_PROFILE,
+                    name: name,
+                });
+                await this.plugin.saveSettings();
+                this.display();
+            })
+        );
+    }
+
+    /**
+     * Add a setting for a list of strings, which the user enters one per line.
+     * @param containerEl Element to add the setting to.
+     * @param key Which of the settings to set.
+     * @param name Setting's name.
+     * @param desc Setting's description.
+     * @param placeholder Placeholder text.
+     */
+    private addListSetting(
+        containerEl: HTMLElement,
+        key:
+            | "anonymizationNames"
+            | "excludedTags"
+            | "excludedNoteNames"
+            | "excludedFolders",
+        name: string,
+        desc: string,
+        placeholder: string
+    ) {
+        new Setting(containerEl)
+            .setName(name)
+            .setDesc(desc)
+            .addTextArea((text) =>
+                text
+                    .setPlaceholder(placeholder)
+                    .setValue(this.plugin.settings[key].join("\n"))
+                    .onChange(async (value) => {
+                        this.plugin.settings[key] = value
+                            .split("\n")
+                            .map((item) => item.trim())
+                            .filter(Boolean);
+                        await this.plugin.saveSettings();
+                    })
+            );
+    }
+
+    /**
+     * Display the settings for a user-defined format profile.
+     * @param containerEl Element to add the settings to.
+     * @param profile Profile to display.
+     */
+    private displayProfile(containerEl: HTMLElement, profile: FormatProfile) {
+        new Setting(containerEl)
+            .setName(profile.name)
+            .setHeading()
+            .addExtraButton((button) =>
+                button
+                    .setIcon("trash")
+                    .setTooltip("Delete profile")
+                    .onClick(async () => {
+                        const settings = this.plugin.settings;
+                        settings.profiles = settings.profiles.filter(
+                            (p) => p !== profile
+                        );
+                        if (settings.defaultProfile === profile.name) {
+                            settings.defaultProfile = SHUNN_MODERN_PROFILE.name;
+                        }
+                        await this.plugin.saveSettings();
+                        this.display();
+                    })
+            );
+        new Setting(containerEl)
+            .setName("Name")
+            .setDesc("Use this name in a story's profile property")
+            .addText((text) =>
+                text.setValue(profile.name).onChange(async (value) => {
+                    const name = value.trim();
+                    if (name === "") {
+                        text.inputEl.addClass("manuscriptum_errored_entry");
+                        return;
+                    }
+                    text.inputEl.removeClass("manuscriptum_errored_entry");
+                    if (this.plugin.settings.defaultProfile === profile.name) {
+                        this.plugin.settings.defaultProfile = name;
+                    }
+                    profile.name = name;
+                    await this.plugin.saveSettings();
+                })
+            );
+        new Setting(containerEl).setName("Font").addText((text) =>
+            text.setValue(profile.font).onChange(async (value) => {
+                profile.font = value.trim();
+                await this.plugin.saveSettings();
+            })
+        );
+        this.addProfileNumberSetting(
+            containerEl,
+            profile,
+            "fontSize",
+            "Font size",
+            "In points"
+        );
+        new Setting(containerEl).setName("Paper size").addDropdown((dropdown) =>
+            dropdown
+                .addOption(PaperSize.Letter, "Letter")
+                .addOption(PaperSize.A4, "A4")
+                .setValue(profile.paperSize)
+                .onChange(async (value) => {
+                    profile.paperSize = value as PaperSizeType;
+                    await this.plugin.saveSettings();
+                })
+        );
+        this.addProfileNumberSetting(
+            containerEl,
+            profile,
+            "margin",
+            "Margins",
+            "In inches"
+        );
+        this.addProfileNumberSetting(
+            containerEl,
+            profile,
+            "lineSpacing",
+            "Line spacing",
+            "1 for single spaced, 2 for double spaced"
+        );
+        this.addProfileNumberSetting(
+            containerEl,
+            profile,
+            "indent",
+            "Paragraph indent",
+            "First line indent in inches"
+        );
+        new Setting(containerEl)
+            .setName("Underline emphasis")
+            .setDesc("Underline emphasized text instead of italicizing it")
+            .addToggle((toggle) =>
+                toggle
+                    .setValue(profile.underlineEmphasis)
+                    .onChange(async (value) => {
+                        profile.underlineEmphasis = value;
+                        await this.plugin.saveSettings();
+                    })
+            );
+        new Setting(containerEl)
+            .setName("Pagination control")
+            .setDesc(
+                "Avoid widows and orphans, keep scene breaks and headings on the same page as the text after them, and keep the byline on one page"
+            )
+            .addToggle((toggle) =>
+                toggle
+                    .setValue(profile.paginationControl)
+                    .onChange(async (value) => {
+                        profile.paginationControl = value;
+                        await this.plugin.saveSettings();
+                    })
+            );
+        new Setting(containerEl)
+            .setName("Scene break")
+            .setDesc("Text to put between scenes")
+            .addText((text) =>
+                text.setValue(profile.sceneBreak).onChange(async (value) => {
+                    profile.sceneBreak = value;
+                    await this.plugin.saveSettings();
+                })
+            );
+        new Setting(containerEl)
+            .setName("End marker")
+            .setDesc(
+                "Text after the manuscript's last line. Leave blank for none."
+            )
+            .addText((text) =>
+                text.setValue(profile.endMarker).onChange(async (value) => {
+                    profile.endMarker = value;
+                    await this.plugin.saveSettings();
+                })
+            );
+        new Setting(containerEl)
+            .setName("Header")
+            .setDesc(
+                "{surname}, {title}, {shortTitle} and {page} are replaced by the author's surname, the title, the short title and the page number"
+            )
+            .addText((text) =>
+                text.setValue(profile.header).onChange(async (value) => {
+                    profile.header = value;
+                    await this.plugin.saveSettings();
+                })
+            );
+        new Setting(containerEl)
+            .setName("Anonymous header")
+            .setDesc("Header to use when the manuscript is anonymized")
+            .addText((text) =>
+                text
+                    .setValue(profile.anonymousHeader)
+                    .onChange(async (value) => {
+                        profile.anonymousHeader = value;
+                        await this.plugin.saveSettings();
+                    })
+            );
+        new Setting(containerEl)
+            .setName("Rights and content warnings")
+            .setDesc(
+                "Where to put the rights, reprint credit and content warnings on the first page"
+            )
+            .addDropdown((dropdown) =>
+                dropdown
+                    .addOption(
+                        FrontMatterPlacement.Table,
+                        "Under the word count"
+                    )
+                    .addOption(FrontMatterPlacement.Byline, "Below the byline")
+                    .setValue(profile.frontMatterPlacement)
+                    .onChange(async (value) => {
+                        profile.frontMatterPlacement =
+                            value as FrontMatterPlacementType;
+                        await this.plugin.saveSettings();
+                    })
+            );
+        new Setting(containerEl)
+            .setName("Footnotes")
+            .setDesc("How to export Markdown footnotes")
+            .addDropdown((dropdown) =>
+                dropdown
+                    .addOption(NoteStyle.Footnotes, "As footnotes")
+                    .addOption(
+                        NoteStyle.Endnotes,
+                        "As endnotes at the end of the manuscript"
+                    )
+                    .setValue(profile.notes)
+                    .onChange(async (value) => {
+                        profile.notes = value as NoteStyleType;
+                        await this.plugin.saveSettings();
+                    })
+            );
+        new Setting(containerEl)
+            .setName("Reference template")
+            .setDesc(
+                "Path of a .docx file in your vault, such as an agency's house template. Its styles, fonts, page size, margins, header and footer take the place of this profile's, except that anonymous manuscripts keep the anonymous header. Leave blank for none."
+            )
+            .addText((text) =>
+                text
+                    .setPlaceholder("Templates/Agency.docx")
+                    .setValue(profile.template)
+                    .onChange(async (value) => {
+                        profile.template = value.trim();
+                        await this.plugin.saveSettings();
+                    })
+            );
+    }
+
+    /**
+     * Add a setting for a format profile's numeric value.
+     * @param containerEl Element to add the setting to.
+     * @param profile Profile whose value to set.
+     * @param key Which of the profile's values to set.
+     * @param name Setting's name.
+     * @param desc Setting's description.
+     */
+    private addProfileNumberSetting(
+        containerEl: HTMLElement,
+        profile: FormatProfile,
+        key: "fontSize" | "margin" | "lineSpacing" | "indent",
+        name: string,
+        desc: string
+    ) {
+        new Setting(containerEl)
+            .setName(name)
+            .setDesc(desc)
+            .addText((text) =>
+                text.setValue(`${profile[key]}`).onChange(async (value) => {
+                    const num = Number(value);
+                    // Warn the user if it's not a usable number
+                    if (
+                        value.trim() === "" ||
+                        !isValidProfileNumber(key, num)
+                    ) {
+                        text.inputEl.addClass("manuscriptum_errored_entry");
+                        return;
+                    }
+                    text.inputEl.removeClass("manuscriptum_errored_entry");
+                    profile[key] = num;
+                    await this.plugin.saveSettings();
+                })
+            );
     }
 }
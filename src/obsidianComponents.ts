@@ -1,5 +1,7 @@
 import { App, Modal, Setting } from "obsidian";
 
+import { NameMatch } from "./anonymization";
+
 /**
  * Confirmation modal.
  */
@@ -62,3 +64,70 @@ export class ConfirmModal extends Modal {
         this.contentEl.empty();
     }
 }
+
+/**
+ * Modal that reports names found in an anonymous manuscript and asks
+ * what to do with them.
+ */
+export class NameReportModal extends Modal {
+    private matches: NameMatch[];
+    private onRemove: () => void;
+    private onKeep: () => void;
+
+    /**
+     * Create a name report modal.
+     * @param app Obsidian app.
+     * @param matches Names found in the manuscript.
+     * @param onRemove Function to run if the user wants the names removed.
+     * @param onKeep Function to run if the user wants to keep the names.
+     */
+    constructor(
+        app: App,
+        matches: NameMatch[],
+        onRemove: () => void,
+        onKeep: () => void
+    ) {
+        super(app);
+        this.matches = matches;
+        this.onRemove = onRemove;
+        this.onKeep = onKeep;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+
+        contentEl.createEl("p", {
+            text: `Found ${this.matches.length === 1 ? "a name" : `${this.matches.length} names`} in the anonymous manuscript:`,
+        });
+        const listEl = contentEl.createEl("ul");
+        for (const match of this.matches) {
+            listEl.createEl("li", { text: match.context });
+        }
+
+        new Setting(contentEl)
+            .addButton((btn) =>
+                btn
+                    .setButtonText("Remove names")
+                    .setCta()
+                    .onClick(() => {
+                        this.close();
+                        this.onRemove();
+                    })
+            )
+            .addButton((btn) =>
+                btn.setButtonText("Keep names").onClick(() => {
+                    this.close();
+                    this.onKeep();
+                })
+            )
+            .addButton((btn) =>
+                btn.setButtonText("Cancel").onClick(() => {
+                    this.close();
+                })
+            );
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
@@ -1,125 +1,479 @@
-import { TAbstractFile, TFile, TFolder, Workspace } from "obsidian";
-
-// As of Obsidian 1.9.14, sort orders live on the "file-explorer" `leaf.view`
-// property in that object's `sortOrder` property. Possible values:
-//   alphabetical: A-Z
-//   alphabeticalReverse: Z-A
-//   byModifiedTime: new to old
-//   byModifiedTimeReverse: old to new
-//   byCreatedTime: new to old
-//   byCreatedTimeReverse: old to new
-// Folders are always at the top as far as I can tell
-
-const SortOrder = {
-    alphabetical: "alphabetical",
-    modifiedTime: "byModifiedTime",
-    createdTime: "byCreatedTime",
+import {
+    getLinkpath,
+    MetadataCache,
+    normalizePath,
+    parseLinktext,
+    resolveSubpath,
+    TFile,
+    TFolder,
+    Vault,
+} from "obsidian";
+
+import { EmbedResolver } from "./converters";
+import {
+    compareByOrder,
+    findStoryFolderIndex,
+    flattenLongformScenes,
+    globToRegExp,
+    parseOrder,
+} from "./utilities";
+
+/**
+ * Ways a story's notes can be put in order.
+ */
+export const OrderStrategy = {
+    /**
+     * Follow the scene list in the story's Longform index note.
+     */
+    Longform: "longform",
+    /**
+     * Follow the links in the story's index note.
+     */
+    IndexNote: "indexNote",
+    /**
+     * Sort by the notes' `order` properties.
+     */
+    OrderProperty: "orderProperty",
+    /**
+     * Sort by name, with numbers in names sorted by their value.
+     */
+    Name: "name",
 } as const;
 
-type SortOrderType = (typeof SortOrder)[keyof typeof SortOrder];
+export type OrderStrategyType =
+    (typeof OrderStrategy)[keyof typeof OrderStrategy];
 
 /**
- * Order in which the files and folders are to be sorted.
+ * A note in a story folder along with the subfolders that contain it.
  */
-interface SortInfo {
-    order: SortOrderType;
+export interface StoryNote {
     /**
-     * Whether to order small to large (A-Z; earlier time to later time) or large to small
+     * The note.
      */
-    smallToLarge: boolean;
+    file: TFile;
     /**
-     * Any error encountered while trying to determine the sort order.
+     * Names of the subfolders between the story folder and the note, outermost first.
      */
-    errorMessage: string | undefined;
+    folders: string[];
 }
 
 /**
- * Get how the user is sorting notes.
+ * A story's notes in order.
+ */
+export interface OrderedStoryNotes {
+    /**
+     * The notes, in the order they go in the manuscript.
+     */
+    notes: StoryNote[];
+    /**
+     * How the notes were put in order.
+     */
+    strategy: OrderStrategyType;
+    /**
+     * Notices to show to the user (if any).
+     */
+    notices: string[];
+}
+
+/**
+ * Get the names of the subfolders between a story folder and a note.
+ * @param folder Story folder.
+ * @param file Note.
+ * @returns The subfolders' names, outermost first, or an empty array if
+ *          the note isn't in the story folder.
+ */
+function foldersBetween(folder: TFolder, file: TFile): string[] {
+    const folders: string[] = [];
+    for (let parent = file.parent; parent !== null; parent = parent.parent) {
+        if (parent === folder) return folders;
+        folders.unshift(parent.name);
+    }
+    return [];
+}
+
+/**
+ * Get a story's notes in the order given by the links in its index note.
+ * @param folder Story folder.
+ * @param indexNote The story's index note.
+ * @param metadataCache Obsidian metadata cache.
+ * @returns The notes in order.
+ */
+function getNotesInIndexOrder(
+    folder: TFolder,
+    indexNote: TFile,
+    metadataCache: MetadataCache
+): OrderedStoryNotes {
+    const notices: string[] = [];
+    const notes: StoryNote[] = [];
+    const seen = new Set<TFile>([indexNote]);
+    for (const link of metadataCache.getFileCache(indexNote)?.links ?? []) {
+        const file = metadataCache.getFirstLinkpathDest(
+            getLinkpath(link.link),
+            indexNote.path
+        );
+        if (file === null || file.extension !== "md") {
+            notices.push(
+                `Couldn't find note ${link.link} linked from index note ${indexNote.name}. Leaving it out.`
+            );
+        } else if (!seen.has(file)) {
+            seen.add(file);
+            notes.push({ file: file, folders: foldersBetween(folder, file) });
+        }
+    }
+
+    const unlisted = getNotesInNameOrder(folder, metadataCache, [])
+        .notes.map((note) => note.file)
+        .filter((file) => !seen.has(file));
+    if (unlisted.length > 0) {
+        notices.push(
+            `These notes aren't linked from index note ${indexNote.name}, so they were left out: ${unlisted.map((file) => file.name).join(", ")}`
+        );
+    }
+
+    return {
+        notes: notes,
+        strategy: OrderStrategy.IndexNote,
+        notices: notices,
+    };
+}
+
+/**
+ * Find a story folder's index note, whose links give the story's notes.
+ * @param folder Story folder.
+ * @param indexNoteName Name of the index note, without its extension.
+ * @returns The index note, or undefined if there isn't one.
+ */
+function findIndexNote(
+    folder: TFolder,
+    indexNoteName: string
+): TFile | undefined {
+    const lowerIndexName = indexNoteName.trim().toLocaleLowerCase();
+    if (lowerIndexName === "") return undefined;
+    return folder.children.find(
+        (child): child is TFile =>
+            child instanceof TFile &&
+            child.extension === "md" &&
+            child.basename.toLocaleLowerCase() === lowerIndexName
+    );
+}
+
+/**
+ * Find a story folder's Longform index note, which has a `longform` property.
+ * @param folder Story folder.
+ * @param metadataCache Obsidian metadata cache.
+ * @returns The index note, or undefined if there isn't one.
+ */
+function findLongformIndex(
+    folder: TFolder,
+    metadataCache: MetadataCache
+): TFile | undefined {
+    return folder.children.find((child): child is TFile => {
+        if (!(child instanceof TFile) || child.extension !== "md") {
+            return false;
+        }
+        const longform: unknown =
+            metadataCache.getFileCache(child)?.frontmatter?.longform;
+        return typeof longform === "object" && longform !== null;
+    });
+}
+
+/**
+ * Get a story's notes in the order given by its Longform index note.
  *
- * TODO: Nota _very_ bene: This depends on a lot of non-public details, which will
- * likely break in later versions of Obsidian.
+ * Scenes indented under other scenes are grouped as if they were in
+ * subfolders named after the scenes they're indented under.
  *
- * @param workspace Obsidian app instance's workspace.
- * @returns Sort settings for the file explorer.
+ * @param indexNote The story's Longform index note.
+ * @param vault Obsidian vault.
+ * @param metadataCache Obsidian metadata cache.
+ * @returns The notes in order.
  */
-function getFileExplorerSortSettings(workspace: Workspace): SortInfo {
-    const sortInfo: SortInfo = {
-        order: SortOrder.alphabetical,
-        smallToLarge: true,
-        errorMessage: undefined,
+function getNotesInLongformOrder(
+    indexNote: TFile,
+    vault: Vault,
+    metadataCache: MetadataCache
+): OrderedStoryNotes {
+    const notices: string[] = [];
+    const longform = metadataCache.getFileCache(indexNote)?.frontmatter
+        ?.longform as Record<string, unknown>;
+
+    // A single-note project is just the index note
+    if (longform.format === "single") {
+        return {
+            notes: [{ file: indexNote, folders: [] }],
+            strategy: OrderStrategy.Longform,
+            notices: notices,
+        };
+    }
+
+    const sceneFolderPath = normalizePath(
+        `${indexNote.parent?.path ?? ""}/${typeof longform.sceneFolder === "string" ? longform.sceneFolder : ""}`
+    );
+    const notes: StoryNote[] = [];
+    const listed = new Set<TFile>([indexNote]);
+    for (const scene of flattenLongformScenes(longform.scenes)) {
+        const file = vault.getFileByPath(
+            normalizePath(`${sceneFolderPath}/${scene.name}.md`)
+        );
+        if (file === null) {
+            notices.push(
+                `Couldn't find scene ${scene.name} from Longform index note ${indexNote.name}. Leaving it out.`
+            );
+        } else if (!listed.has(file)) {
+            listed.add(file);
+            notes.push({ file: file, folders: scene.folders });
+        }
+    }
+
+    // Let the user know about notes Longform hasn't been told about
+    const ignored = (
+        Array.isArray(longform.ignoredFiles) ? longform.ignoredFiles : []
+    )
+        .filter((pattern): pattern is string => typeof pattern === "string")
+        .map(globToRegExp);
+    const sceneFolder = vault.getFolderByPath(sceneFolderPath);
+    const unlisted = (sceneFolder?.children ?? []).filter(
+        (child): child is TFile =>
+            child instanceof TFile &&
+            child.extension === "md" &&
+            !listed.has(child) &&
+            !ignored.some((regExp) => regExp.test(child.basename))
+    );
+    if (unlisted.length > 0) {
+        notices.push(
+            `These notes aren't scenes in Longform index note ${indexNote.name}, so they were left out: ${unlisted.map((file) => file.name).join(", ")}`
+        );
+    }
+
+    return {
+        notes: notes,
+        strategy: OrderStrategy.Longform,
+        notices: notices,
     };
-    const leaf = workspace.getLeavesOfType("file-explorer")?.[0];
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any -- There's no public type for the file-explorer type, so we cast to any as a stop-gap
-    const view = leaf?.view as any;
-    if (!view) {
-        sortInfo.errorMessage =
-            "Couldn't determine notes' sort order: File Explorer View not found";
-    } else if (!view.sortOrder) {
-        sortInfo.errorMessage =
-            "Couldn't determine notes' sort order: that information isn't in the File Explorer View as expected";
-    } else {
-        let order = view.sortOrder as string;
-        const reverse = order.endsWith("Reverse");
-        if (reverse) {
-            order = order.slice(0, -7);
+}
+
+/**
+ * Get a story's notes sorted by their `order` properties and then by name.
+ *
+ * Subfolders are sorted along with the notes by name, so a note such as
+ * `00 Prologue` can come before the chapters' subfolders. A subfolder's
+ * notes take its place.
+ *
+ * @param folder Folder to get the notes from.
+ * @param metadataCache Obsidian metadata cache.
+ * @param folders Names of the subfolders that lead to the folder (used when recursing).
+ * @returns The notes in order.
+ */
+function getNotesInNameOrder(
+    folder: TFolder,
+    metadataCache: MetadataCache,
+    folders: string[]
+): OrderedStoryNotes {
+    const notices: string[] = [];
+    const notes: StoryNote[] = [];
+    let strategy: OrderStrategyType = OrderStrategy.Name;
+
+    const children = folder.children
+        .filter(
+            (child): child is TFile | TFolder =>
+                child instanceof TFolder ||
+                (child instanceof TFile && child.extension === "md")
+        )
+        .map((child) => {
+            if (child instanceof TFolder) {
+                return { child: child, name: child.name, order: undefined };
+            }
+            const value: unknown =
+                metadataCache.getFileCache(child)?.frontmatter?.order;
+            const order = parseOrder(value);
+            if (value !== undefined && value !== null && order === undefined) {
+                notices.push(
+                    `order property on note ${child.name} isn't a number. Ignoring.`
+                );
+            }
+            return { child: child, name: child.basename, order: order };
+        })
+        .sort(compareByOrder);
+    if (children.some((child) => child.order !== undefined)) {
+        strategy = OrderStrategy.OrderProperty;
+    }
+
+    for (const { child } of children) {
+        if (child instanceof TFile) {
+            notes.push({ file: child, folders: folders });
+            continue;
         }
-        if (order === "alphabetical") {
-            sortInfo.order = SortOrder.alphabetical;
-            sortInfo.smallToLarge = !reverse; // Default is small to large (a-Z)
-        } else if (order === "byModifiedTime") {
-            sortInfo.order = SortOrder.modifiedTime;
-            sortInfo.smallToLarge = reverse; // Default is large number to small (newer to older)
-        } else if (order === "byCreatedTime") {
-            sortInfo.order = SortOrder.createdTime;
-            sortInfo.smallToLarge = reverse; // Default is large number to small (newer to older)
-        } else {
-            sortInfo.errorMessage = `Couldn't determine notes' sort order: unexpected value of ${order}`;
-            sortInfo.order = SortOrder.alphabetical;
-            sortInfo.smallToLarge = true;
+        const result = getNotesInNameOrder(child, metadataCache, [
+            ...folders,
+            child.name,
+        ]);
+        notes.push(...result.notes);
+        notices.push(...result.notices);
+        if (result.strategy === OrderStrategy.OrderProperty) {
+            strategy = result.strategy;
         }
-        return sortInfo;
     }
 
-    return sortInfo;
+    return { notes: notes, strategy: strategy, notices: notices };
 }
 
 /**
- * Sort a folder's children in the same order they're displayed in the File Explorer.
- * @param workspace Obsidian app instance's workspace.
- * @param children Folder's children to be sorted.
- * @returns Children in the same sort order as in the file explorer.
+ * Get all Markdown notes in a story folder and its subfolders in manuscript order.
+ *
+ * If the story folder has a Longform index note, its scene list gives the
+ * notes and their order. If it has an index note, its links give the notes
+ * and their order. Otherwise notes are sorted by their `order` properties, and then by
+ * name with numbers in names sorted by their value ("2 - Arrival" before
+ * "10 - Climax"). Each subfolder's notes take the place of the subfolder.
+ *
+ * @param folder Story folder.
+ * @param vault Obsidian vault.
+ * @param metadataCache Obsidian metadata cache.
+ * @param indexNoteName Name of the index note, without its extension.
+ * @returns The notes, how they were ordered, and any notices.
  */
-export function sortChildrenInFileExplorerOrder(
-    workspace: Workspace,
-    children: TAbstractFile[]
-): TAbstractFile[] {
-    const { order, smallToLarge } = getFileExplorerSortSettings(workspace);
-
-    const contents = children.slice().sort((a, b) => {
-        // Folder-first logic
-        if (a instanceof TFolder && b instanceof TFile) return -1;
-        if (a instanceof TFile && b instanceof TFolder) return 1;
-
-        // Choose sort key
-        const getKey = (f: TAbstractFile) => {
-            if (order === SortOrder.modifiedTime && f instanceof TFile)
-                return f.stat.mtime;
-            if (order === SortOrder.createdTime && f instanceof TFile)
-                return f.stat.ctime;
-            // This catches "alphabetical" order plus is a default in case
-            // Obsidian decides to fiddle with this interface
-            return f.name.toLowerCase();
-        };
+export function getNotesInStoryOrder(
+    folder: TFolder,
+    vault: Vault,
+    metadataCache: MetadataCache,
+    indexNoteName: string
+): OrderedStoryNotes {
+    const longformIndex = findLongformIndex(folder, metadataCache);
+    if (longformIndex !== undefined) {
+        return getNotesInLongformOrder(longformIndex, vault, metadataCache);
+    }
 
-        const keyA = getKey(a);
-        const keyB = getKey(b);
-        const result =
-            typeof keyA === "string"
-                ? keyA.localeCompare(String(keyB))
-                : keyA - (typeof keyB === "string" ? parseFloat(keyB) : keyB);
+    const indexNote = findIndexNote(folder, indexNoteName);
+    if (indexNote !== undefined) {
+        return getNotesInIndexOrder(folder, indexNote, metadataCache);
+    }
+    return getNotesInNameOrder(folder, metadataCache, []);
+}
 
-        return smallToLarge ? result : -result;
-    });
+/**
+ * Find the story folder that a note belongs to, using
+ * `findStoryFolderIndex()` to choose among the folders around the note.
+ *
+ * @param folder Folder that holds the note.
+ * @param metadataCache Obsidian metadata cache.
+ * @param indexNoteName Name of the index note, without its extension.
+ * @returns The story folder, or the note's own folder if none of the
+ *          folders around it is marked as one.
+ */
+export function findStoryFolder(
+    folder: TFolder,
+    metadataCache: MetadataCache,
+    indexNoteName: string
+): TFolder {
+    const folders: TFolder[] = [];
+    for (
+        let parent: TFolder | null = folder;
+        parent !== null && !parent.isRoot();
+        parent = parent.parent
+    ) {
+        folders.push(parent);
+    }
+    const ndx = findStoryFolderIndex(
+        folders.map((f) => {
+            const metadataNote = findMetadataNote(f);
+            return {
+                hasIndex:
+                    findLongformIndex(f, metadataCache) !== undefined ||
+                    findIndexNote(f, indexNoteName) !== undefined,
+                metadata:
+                    metadataNote === undefined
+                        ? undefined
+                        : metadataCache.getFileCache(metadataNote)?.frontmatter,
+            };
+        })
+    );
+    return folders[ndx] ?? folder;
+}
+
+/**
+ * Describe how a story's notes were put in order, for showing to the user.
+ * @param strategy How the notes were put in order.
+ * @param indexNoteName Name of the index note.
+ * @returns The description.
+ */
+export function describeOrderStrategy(
+    strategy: OrderStrategyType,
+    indexNoteName: string
+): string {
+    switch (strategy) {
+        case OrderStrategy.Longform:
+            return "Scenes are in the order given by the story's Longform project.";
+        case OrderStrategy.IndexNote:
+            return `Scenes are in the order they're linked from the ${indexNoteName} note.`;
+        case OrderStrategy.OrderProperty:
+            return "Scenes are in the order given by their order properties.";
+        case OrderStrategy.Name:
+            return "Scenes are in order by name.";
+    }
+}
+
+/**
+ * Name of the note that holds a folder's manuscript properties, without
+ * its extension.
+ */
+export const METADATA_NOTE_NAME = "_manuscript";
 
-    return contents;
+/**
+ * Find the note that holds a folder's manuscript properties: a note named
+ * `_manuscript`, or else a folder note named after the folder inside it.
+ * @param folder Folder to look in.
+ * @returns The metadata note, or undefined if the folder doesn't have one.
+ */
+export function findMetadataNote(folder: TFolder): TFile | undefined {
+    const notes = folder.children.filter(
+        (child): child is TFile =>
+            child instanceof TFile && child.extension === "md"
+    );
+    return (
+        notes.find((file) => file.basename === METADATA_NOTE_NAME) ??
+        (folder.isRoot()
+            ? undefined
+            : notes.find((file) => file.basename === folder.name))
+    );
+}
+
+/**
+ * Create a function that finds the notes, headings and blocks that
+ * Obsidian embeds (`![[note#heading]]`) refer to.
+ * @param vault Obsidian vault.
+ * @param metadataCache Obsidian metadata cache.
+ * @returns The embed resolver.
+ */
+export function createEmbedResolver(
+    vault: Vault,
+    metadataCache: MetadataCache
+): EmbedResolver {
+    return async (link, sourcePath) => {
+        const { path: linkpath, subpath } = parseLinktext(link);
+        const file = metadataCache.getFirstLinkpathDest(linkpath, sourcePath);
+        if (file === null || file.extension !== "md") {
+            return undefined;
+        }
+        const content = await vault.cachedRead(file);
+        if (subpath === "") {
+            return { path: file.path, content: content };
+        }
+
+        const cache = metadataCache.getFileCache(file);
+        const result = cache !== null ? resolveSubpath(cache, subpath) : null;
+        if (result === null) {
+            return undefined;
+        }
+        // Leave out an embedded heading itself, as it's a label for
+        // the section rather than part of the story
+        const start =
+            result.type === "heading"
+                ? result.current.position.end.offset
+                : result.start.offset;
+        const end = result.end?.offset ?? content.length;
+        return {
+            path: file.path + subpath,
+            content: content.slice(start, end),
+        };
+    };
 }
@@ -0,0 +1,325 @@
+import { convertInchesToTwip } from "docx";
+
+/**
+ * Paper sizes a manuscript can use.
+ */
+export const PaperSize = {
+    Letter: "letter",
+    A4: "a4",
+} as const;
+
+export type PaperSizeType = (typeof PaperSize)[keyof typeof PaperSize];
+
+/**
+ * Where to put the rights, reprint credit and content warnings in a
+ * manuscript's front matter.
+ */
+export const FrontMatterPlacement = {
+    /**
+     * Under the word count in the table at the top of the first page.
+     */
+    Table: "table",
+    /**
+     * Centered below the byline.
+     */
+    Byline: "byline",
+} as const;
+
+export type FrontMatterPlacementType =
+    (typeof FrontMatterPlacement)[keyof typeof FrontMatterPlacement];
+
+/**
+ * How to export a manuscript's Markdown footnotes.
+ */
+export const NoteStyle = {
+    /**
+     * As Word footnotes at the bottom of the page.
+     */
+    Footnotes: "footnotes",
+    /**
+     * As numbered notes in a section at the end of the manuscript.
+     */
+    Endnotes: "endnotes",
+} as const;
+
+export type NoteStyleType = (typeof NoteStyle)[keyof typeof NoteStyle];
+
+/**
+ * Paper dimensions in twips.
+ */
+const PaperDimensions: Record<
+    PaperSizeType,
+    { width: number; height: number }
+> = {
+    letter: { width: 12240, height: 15840 }, // 8.5" x 11"
+    a4: { width: 11906, height: 16838 }, // 210mm x 297mm
+};
+
+/**
+ * Token in a header pattern that's replaced by the page number.
+ */
+export const HEADER_PAGE_TOKEN = "{page}";
+
+/**
+ * Named collection of settings that define how a manuscript looks.
+ */
+export interface FormatProfile {
+    /**
+     * Profile's name.
+     */
+    name: string;
+    /**
+     * Font to use for the manuscript.
+     */
+    font: string;
+    /**
+     * Font size in points.
+     */
+    fontSize: number;
+    /**
+     * Paper size.
+     */
+    paperSize: PaperSizeType;
+    /**
+     * Page margins in inches.
+     */
+    margin: number;
+    /**
+     * Line spacing, where 1 is single spaced and 2 is double spaced.
+     */
+    lineSpacing: number;
+    /**
+     * Paragraphs' first line indent in inches.
+     */
+    indent: number;
+    /**
+     * Text to use for scene breaks.
+     */
+    sceneBreak: string;
+    /**
+     * Text to put after the manuscript's last line, or blank for none.
+     */
+    endMarker: string;
+    /**
+     * Whether to underline emphasized text instead of italicizing it.
+     */
+    underlineEmphasis: boolean;
+    /**
+     * Whether to control pagination: widows and orphans, scene breaks and
+     * headings at the bottom of a page, and a byline split across pages.
+     */
+    paginationControl: boolean;
+    /**
+     * Pattern for the running header. `{surname}`, `{title}`, `{shortTitle}`
+     * and `{page}` are replaced by the author's surname, the title, the short
+     * title (or the title if there's no short title) and the page number.
+     */
+    header: string;
+    /**
+     * Pattern for the running header of anonymous manuscripts.
+     */
+    anonymousHeader: string;
+    /**
+     * Where to put the rights, reprint credit and content warnings.
+     */
+    frontMatterPlacement: FrontMatterPlacementType;
+    /**
+     * Whether footnotes are exported as footnotes or endnotes.
+     */
+    notes: NoteStyleType;
+    /**
+     * Vault path of a reference .docx whose styles, fonts, page size,
+     * margins, header and footer to use, or blank for none.
+     */
+    template: string;
+}
+
+/**
+ * Shunn modern manuscript format.
+ */
+export const SHUNN_MODERN_PROFILE: Readonly<FormatProfile> = {
+    name: "Shunn modern",
+    font: "Times New Roman",
+    fontSize: 12,
+    paperSize: PaperSize.Letter,
+    margin: 1,
+    lineSpacing: 2,
+    indent: 0.5,
+    sceneBreak: "#",
+    endMarker: "END",
+    underlineEmphasis: false,
+    paginationControl: true,
+    header: "{surname} / {shortTitle} / {page}",
+    anonymousHeader: "{shortTitle} / {page}",
+    frontMatterPlacement: FrontMatterPlacement.Table,
+    notes: NoteStyle.Footnotes,
+    template: "",
+};
+
+/**
+ * Shunn classic manuscript format, which uses a monospace font
+ * and underlines rather than italics.
+ */
+export const SHUNN_CLASSIC_PROFILE: Readonly<FormatProfile> = {
+    ...SHUNN_MODERN_PROFILE,
+    name: "Shunn classic",
+    font: "Courier New",
+    underlineEmphasis: true,
+};
+
+/**
+ * Profiles that ship with the plugin and can't be changed by the user.
+ */
+export const BUILT_IN_PROFILES: readonly Readonly<FormatProfile>[] = [
+    SHUNN_MODERN_PROFILE,
+    SHUNN_CLASSIC_PROFILE,
+];
+
+/**
+ * Find a format profile by name.
+ *
+ * User-defined profiles take precedence over built-in ones with the same name.
+ * Names are matched without regard to case.
+ *
+ * @param name Name of the profile.
+ * @param userProfiles User-defined profiles.
+ * @returns The profile, or undefined if none matched.
+ */
+export function findProfile(
+    name: string,
+    userProfiles: readonly FormatProfile[]
+): Readonly<FormatProfile> | undefined {
+    const lowerName = name.trim().toLocaleLowerCase();
+    return [...userProfiles, ...BUILT_IN_PROFILES].find(
+        (p) => p.name.trim().toLocaleLowerCase() === lowerName
+    );
+}
+
+/**
+ * Check a number that a profile's setting can take. Font sizes and line
+ * spacing must be positive, but margins and indents can be zero.
+ *
+ * @param key Profile setting.
+ * @param value Setting's value.
+ * @returns True if the value can be used.
+ */
+export function isValidProfileNumber(
+    key: "fontSize" | "margin" | "lineSpacing" | "indent",
+    value: number
+): boolean {
+    return key === "fontSize" || key === "lineSpacing" ? value > 0 : value >= 0;
+}
+
+/**
+ * Fill in any missing or invalid values in a (possibly hand-edited) profile
+ * from the default profile.
+ *
+ * @param profile Profile to normalize.
+ * @returns The normalized profile.
+ */
+export function normalizeProfile(
+    profile: Partial<FormatProfile>
+): FormatProfile {
+    const normalized: FormatProfile = { ...SHUNN_MODERN_PROFILE, ...profile };
+    for (const k of ["fontSize", "margin", "lineSpacing", "indent"] as const) {
+        if (
+            typeof normalized[k] !== "number" ||
+            !isValidProfileNumber(k, normalized[k])
+        ) {
+            normalized[k] = SHUNN_MODERN_PROFILE[k];
+        }
+    }
+    for (const k of ["underlineEmphasis", "paginationControl"] as const) {
+        if (typeof normalized[k] !== "boolean") {
+            normalized[k] = SHUNN_MODERN_PROFILE[k];
+        }
+    }
+    if (!Object.values(PaperSize).includes(normalized.paperSize)) {
+        normalized.paperSize = SHUNN_MODERN_PROFILE.paperSize;
+    }
+    if (
+        !Object.values(FrontMatterPlacement).includes(
+            normalized.frontMatterPlacement
+        )
+    ) {
+        normalized.frontMatterPlacement =
+            SHUNN_MODERN_PROFILE.frontMatterPlacement;
+    }
+    if (!Object.values(NoteStyle).includes(normalized.notes)) {
+        normalized.notes = SHUNN_MODERN_PROFILE.notes;
+    }
+    for (const k of [
+        "sceneBreak",
+        "endMarker",
+        "header",
+        "anonymousHeader",
+        "template",
+    ] as const) {
+        if (typeof normalized[k] !== "string") {
+            normalized[k] = SHUNN_MODERN_PROFILE[k];
+        }
+    }
+    return normalized;
+}
+
+/**
+ * Get a profile's page size.
+ * @param profile Format profile.
+ * @returns Page width and height in twips.
+ */
+export function profilePageSize(profile: FormatProfile): {
+    width: number;
+    height: number;
+} {
+    return PaperDimensions[profile.paperSize];
+}
+
+/**
+ * Get a profile's line spacing in the units docx uses with its "auto" line rule.
+ * @param profile Format profile.
+ * @returns Line spacing in 240ths of a line.
+ */
+export function profileLineSpacing(profile: FormatProfile): number {
+    return Math.round(profile.lineSpacing * 240);
+}
+
+/**
+ * Get a profile's first line indent.
+ * @param profile Format profile.
+ * @returns The indent in twips.
+ */
+export function profileIndent(profile: FormatProfile): number {
+    return convertInchesToTwip(profile.indent);
+}
+
+/**
+ * Split a header pattern into pieces of text and page number tokens.
+ *
+ * Tokens whose values are undefined (such as the surname in an anonymous
+ * manuscript) are removed along with the separator that follows them.
+ *
+ * @param pattern Header pattern, such as `{surname} / {shortTitle} / {page}`.
+ * @param values Values for each token, keyed by the token's name (such as `surname`).
+ * @returns Pieces of the header, with page numbers represented by `HEADER_PAGE_TOKEN`.
+ */
+export function expandHeaderPattern(
+    pattern: string,
+    values: Record<string, string | undefined>
+): string[] {
+    const expanded = pattern.replace(
+        /\{(\w+)\}([^{\w]*)/g,
+        (match, token: string, separator: string) => {
+            if (`{${token}}` === HEADER_PAGE_TOKEN) return match;
+            if (!(token in values)) return match;
+            const value = values[token];
+            return value === undefined ? "" : value + separator;
+        }
+    );
+
+    const pieces: string[] = [];
+    expanded.split(HEADER_PAGE_TOKEN).forEach((text, ndx) => {
+        if (ndx > 0) pieces.push(HEADER_PAGE_TOKEN);
+        if (text !== "") pieces.push(text);
+    });
+    return pieces;
+}
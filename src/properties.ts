@@ -0,0 +1,257 @@
+import type { ManuscriptMetadata } from "./converters";
+
+/**
+ * Properties that set a manuscript's metadata, in the order they're
+ * described to the user.
+ */
+export const METADATA_PROPERTY_KEYS = [
+    "title",
+    "shorttitle",
+    "filename",
+    "outdir",
+    "author",
+    "surname",
+    "contact",
+    "profile",
+    "anonymous",
+    "genre",
+    "description",
+    "lang",
+    "wordcount",
+    "endmarker",
+    "rights",
+    "reprint",
+    "contentwarnings",
+    "tags",
+    "docproperties",
+] as const satisfies readonly (keyof ManuscriptMetadata)[];
+
+export type MetadataPropertyKey = (typeof METADATA_PROPERTY_KEYS)[number];
+
+/**
+ * Properties that only make sense for a single story, so they don't cascade
+ * from the metadata notes of folders that hold several stories.
+ */
+export const STORY_PROPERTY_KEYS: readonly MetadataPropertyKey[] = [
+    "title",
+    "shorttitle",
+    "filename",
+    "wordcount",
+];
+
+/**
+ * Result of checking a property's value: either the value to use, or
+ * what's wrong with it, such as "isn't a number".
+ */
+export type PropertyResult<T> = { value: T } | { problem: string };
+
+/**
+ * Describe the type of a value that doesn't match a property's type.
+ * @param value Property's value.
+ * @returns The description, such as "a list".
+ */
+function describeType(value: unknown): string {
+    if (Array.isArray(value)) return "a list";
+    if (typeof value === "boolean") return "true or false";
+    if (typeof value === "number") return "a number";
+    if (typeof value === "object") return "a set of names and values";
+    return "text";
+}
+
+/**
+ * Check a text property. Numbers are turned into text, so a title like
+ * `1984` works.
+ * @param value Property's value.
+ * @returns The text.
+ */
+function parseText(value: unknown): PropertyResult<string> {
+    if (typeof value === "number") {
+        return { value: `${value}` };
+    }
+    if (typeof value !== "string") {
+        return { problem: `should be text, not ${describeType(value)}` };
+    }
+    if (value.trim() === "") {
+        return { problem: "is blank" };
+    }
+    return { value: value };
+}
+
+/**
+ * Check a whole number property. Text like `4,500` is allowed.
+ * @param value Property's value.
+ * @returns The number.
+ */
+function parseWholeNumber(value: unknown): PropertyResult<number> {
+    const number =
+        typeof value === "number"
+            ? value
+            : typeof value === "string" && value.trim() !== ""
+              ? Number(value.replace(/,/g, ""))
+              : NaN;
+    if (!Number.isInteger(number) || number < 0) {
+        return { problem: "isn't a number" };
+    }
+    return { value: number };
+}
+
+/**
+ * Check a true or false property.
+ * @param value Property's value.
+ * @returns The boolean.
+ */
+function parseBoolean(value: unknown): PropertyResult<boolean> {
+    if (typeof value === "boolean") {
+        return { value: value };
+    }
+    if (typeof value === "string" && /^(true|false)$/i.test(value.trim())) {
+        return { value: value.trim().toLowerCase() === "true" };
+    }
+    return { problem: `should be true or false, not ${describeType(value)}` };
+}
+
+/**
+ * Check a list property. A single piece of text is a list of one item.
+ * @param value Property's value.
+ * @returns The list's non-blank items.
+ */
+function parseList(value: unknown): PropertyResult<string[]> {
+    const items: unknown[] = Array.isArray(value) ? value : [value];
+    if (
+        !items.every(
+            (item) =>
+                typeof item === "string" ||
+                typeof item === "number" ||
+                item === null
+        )
+    ) {
+        return { problem: "should be a list of text" };
+    }
+    return {
+        value: items
+            .filter((item) => item !== null)
+            .map((item) => `${item}`.trim())
+            .filter(Boolean),
+    };
+}
+
+/**
+ * Check a `tags` property, which can be a list or text with comma- or
+ * space-separated tags.
+ * @param value Property's value.
+ * @returns The tags, without their leading `#`.
+ */
+function parseTags(value: unknown): PropertyResult<string[]> {
+    const result = parseList(value);
+    if ("problem" in result) {
+        return result;
+    }
+    return {
+        value: result.value
+            .flatMap((item) => item.split(/[,\s]+/))
+            .map((tag) => tag.replace(/^#/, ""))
+            .filter(Boolean),
+    };
+}
+
+/**
+ * Check a language property.
+ * @param value Property's value.
+ * @returns The language as a BCP 47 tag.
+ */
+function parseLanguage(value: unknown): PropertyResult<string> {
+    const result = parseText(value);
+    if ("problem" in result) {
+        return result;
+    }
+    try {
+        Intl.getCanonicalLocales(result.value.trim());
+    } catch (e) {
+        if (!(e instanceof RangeError)) throw e;
+        return { problem: "isn't a language tag, such as en-US or ja" };
+    }
+    return { value: result.value.trim() };
+}
+
+/**
+ * Check an `endmarker` property, where false means no end marker.
+ * @param value Property's value.
+ * @returns The end marker, or blank for none.
+ */
+function parseEndMarker(value: unknown): PropertyResult<string> {
+    return value === false ? { value: "" } : parseText(value);
+}
+
+/**
+ * Check a `docproperties` property.
+ * @param value Property's value.
+ * @returns The document properties' values as text, keyed by name.
+ */
+function parseDocProperties(
+    value: unknown
+): PropertyResult<Record<string, string>> {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        return {
+            problem: `should be a set of names and values, such as Market: Clarkesworld, not ${describeType(value)}`,
+        };
+    }
+    const entries = Object.entries(value);
+    const invalid = entries
+        .filter(
+            ([, val]) => !["string", "number", "boolean"].includes(typeof val)
+        )
+        .map(([name]) => name);
+    if (invalid.length !== 0) {
+        return {
+            problem: `has values that aren't text, numbers or true or false: ${invalid.join(", ")}`,
+        };
+    }
+    return {
+        value: Object.fromEntries(
+            entries.map(([name, val]) => [name, String(val)])
+        ),
+    };
+}
+
+/**
+ * Functions that check each property's value.
+ */
+const propertyParsers: {
+    [K in MetadataPropertyKey]: (
+        value: unknown
+    ) => PropertyResult<NonNullable<ManuscriptMetadata[K]>>;
+} = {
+    title: parseText,
+    shorttitle: parseText,
+    filename: parseText,
+    outdir: parseText,
+    author: parseText,
+    surname: parseText,
+    contact: parseText,
+    profile: parseText,
+    anonymous: parseBoolean,
+    genre: parseText,
+    description: parseText,
+    lang: parseLanguage,
+    wordcount: parseWholeNumber,
+    endmarker: parseEndMarker,
+    rights: parseList,
+    reprint: parseText,
+    contentwarnings: parseList,
+    tags: parseTags,
+    docproperties: parseDocProperties,
+};
+
+/**
+ * Check a manuscript property's value against the property's type.
+ *
+ * @param key Property's name.
+ * @param value Property's value from a note's frontmatter.
+ * @returns The value to use, or what's wrong with the value.
+ */
+export function parseMetadataProperty<K extends MetadataPropertyKey>(
+    key: K,
+    value: unknown
+): PropertyResult<NonNullable<ManuscriptMetadata[K]>> {
+    return propertyParsers[key](value);
+}
@@ -0,0 +1,101 @@
+import { expect } from "chai";
+import "mocha";
+
+import { Root } from "mdast";
+
+import * as uut from "../anonymization";
+
+/**
+ * Create a Markdown AST with one paragraph per string.
+ * @param paras Text of each paragraph.
+ * @returns The AST.
+ */
+function createTree(...paras: string[]): Root {
+    return {
+        type: "root",
+        children: paras.map((value) => ({
+            type: "paragraph",
+            children: [{ type: "text", value }],
+        })),
+    };
+}
+
+describe("Anonymization", () => {
+    describe("Find Names", () => {
+        it("should find names regardless of case", () => {
+            const tree = createTree("Written by jae simons.", "Thanks, Jae!");
+
+            const result = uut.findNames(tree, ["Jae Simons", "Jae"]);
+
+            expect(result).to.eql([
+                { name: "jae simons", context: "Written by jae simons." },
+                { name: "Jae", context: "Thanks, Jae!" },
+            ]);
+        });
+
+        it("should only find whole words", () => {
+            const tree = createTree("Jaeger and Simonson, but not Simons'.");
+
+            const result = uut.findNames(tree, ["Jae", "Simons"]);
+
+            expect(result.map((m) => m.name)).to.eql(["Simons"]);
+        });
+
+        it("should shorten the context of names in long paragraphs", () => {
+            const tree = createTree(
+                `${"a".repeat(40)} Simons ${"b".repeat(40)}`
+            );
+
+            const result = uut.findNames(tree, ["Simons"]);
+
+            expect(result[0].context).to.equal(
+                `...${"a".repeat(29)} Simons ${"b".repeat(29)}...`
+            );
+        });
+
+        it("should find nothing when there are no names", () => {
+            const tree = createTree("Jae Simons");
+
+            const result = uut.findNames(tree, [" "]);
+
+            expect(result).to.be.empty;
+        });
+    });
+
+    describe("Remove Names", () => {
+        it("should replace names in the text", () => {
+            const tree = createTree("Ask Jae Simons, or J. R. Simons.");
+
+            uut.removeNames(tree, ["Jae Simons", "J. R. Simons"]);
+
+            expect(tree).to.eql(
+                createTree(
+                    `Ask ${uut.REMOVED_NAME_TEXT}, or ${uut.REMOVED_NAME_TEXT}.`
+                )
+            );
+        });
+    });
+
+    describe("Remove Names From Filename", () => {
+        it("should remove names and leftover separators", () => {
+            // No arrange
+
+            const result = uut.removeNamesFromFilename(
+                "jae-simons - the-story.docx",
+                ["Jae Simons"]
+            );
+
+            expect(result).to.equal("the-story.docx");
+        });
+
+        it("should fall back to a generic name when nothing is left", () => {
+            // No arrange
+
+            const result = uut.removeNamesFromFilename("simons.docx", [
+                "Simons",
+            ]);
+
+            expect(result).to.equal("manuscript.docx");
+        });
+    });
+});
@@ -1,6 +1,7 @@
 import { expect } from "chai";
 import "mocha";
-import { Paragraph, Text } from "mdast";
+import { Heading, Paragraph, Text } from "mdast";
+import { visit } from "unist-util-visit";
 
 import * as uut from "../converters";
 
@@ -60,6 +61,218 @@ describe("Converters", () => {
             ).to.equal("The story continues!");
         });
 
+        it("should not put a thematic break before a note that starts with a chapter heading", async () => {
+            const metadata = {
+                title: "Story Title",
+                filename: "storytitle.docx",
+                outdir: "~/stories",
+            };
+            const info = [
+                {
+                    name: "notey",
+                    content: "This is our story",
+                },
+                {
+                    name: "notey 1",
+                    content: "## Chapter Two\n\nThe story continues!",
+                },
+            ];
+
+            const [result, _] = uut.obsidianNotesToAST(info, metadata);
+
+            expect(result?.children[0].type).to.equal("paragraph");
+            expect(result?.children[1].type).to.equal("heading");
+            expect(result?.children[2].type).to.equal("paragraph");
+        });
+
+        it("should put a thematic break before a note that starts with a lower-level heading", async () => {
+            const metadata = {
+                title: "Story Title",
+                filename: "storytitle.docx",
+                outdir: "~/stories",
+            };
+            const info = [
+                {
+                    name: "notey",
+                    content: "This is our story",
+                },
+                {
+                    name: "notey 1",
+                    content: "### Aside\n\nThe story continues!",
+                },
+            ];
+
+            const [result, _] = uut.obsidianNotesToAST(info, metadata);
+
+            expect(result?.children[1].type).to.equal("thematicBreak");
+            expect(result?.children[2].type).to.equal("heading");
+        });
+
+        it("should add a chapter heading from the name of a note's subfolder", async () => {
+            const metadata = {
+                title: "Story Title",
+                filename: "storytitle.docx",
+                outdir: "~/stories",
+            };
+            const info = [
+                {
+                    name: "notey",
+                    content: "This is our story",
+                    folders: ["Chapter One"],
+                },
+            ];
+
+            const [result, _] = uut.obsidianNotesToAST(info, metadata);
+
+            expect(result?.children[0]).to.eql({
+                type: "heading",
+                depth: 2,
+                children: [{ type: "text", value: "Chapter One" }],
+            });
+            expect(result?.children[1].type).to.equal("paragraph");
+        });
+
+        it("should only put thematic breaks between notes in the same chapter", async () => {
+            const metadata = {
+                title: "Story Title",
+                filename: "storytitle.docx",
+                outdir: "~/stories",
+            };
+            const info = [
+                {
+                    name: "notey",
+                    content: "This is our story",
+                    folders: ["Chapter One"],
+                },
+                {
+                    name: "notey 1",
+                    content: "The story continues!",
+                    folders: ["Chapter One"],
+                },
+                {
+                    name: "notey 2",
+                    content: "And so on.",
+                    folders: ["Chapter Two"],
+                },
+            ];
+
+            const [result, _] = uut.obsidianNotesToAST(info, metadata);
+
+            expect(result?.children.map((n) => n.type)).to.eql([
+                "heading",
+                "paragraph",
+                "thematicBreak",
+                "paragraph",
+                "heading",
+                "paragraph",
+            ]);
+        });
+
+        it("should put a thematic break between a chapter and a note outside the subfolders", async () => {
+            const metadata = {
+                title: "Story Title",
+                filename: "storytitle.docx",
+                outdir: "~/stories",
+            };
+            const info = [
+                { name: "Prologue.md", content: "Prologue text." },
+                {
+                    name: "a.md",
+                    content: "Chapter one text.",
+                    folders: ["Ch1"],
+                },
+                {
+                    name: "b.md",
+                    content: "Chapter two text.",
+                    folders: ["Ch2"],
+                },
+                { name: "Epilogue.md", content: "Epilogue text." },
+            ];
+
+            const [result, _] = uut.obsidianNotesToAST(info, metadata);
+
+            expect(result?.children.map((n) => n.type)).to.eql([
+                "paragraph",
+                "heading",
+                "paragraph",
+                "heading",
+                "paragraph",
+                "thematicBreak",
+                "paragraph",
+            ]);
+        });
+
+        it("should turn outer subfolders into parts when notes are nested two subfolders deep", async () => {
+            const metadata = {
+                title: "Story Title",
+                filename: "storytitle.docx",
+                outdir: "~/stories",
+            };
+            const info = [
+                {
+                    name: "notey",
+                    content: "This is our story",
+                    folders: ["Part One", "Chapter One"],
+                },
+                {
+                    name: "notey 1",
+                    content: "The story continues!",
+                    folders: ["Part One", "Chapter Two"],
+                },
+                {
+                    name: "notey 2",
+                    content: "And so on.",
+                    folders: ["Part Two", "Chapter Three"],
+                },
+            ];
+
+            const [result, _] = uut.obsidianNotesToAST(info, metadata);
+            const headings = result?.children
+                .filter((n) => n.type === "heading")
+                .map((n) => [
+                    (n as Heading).depth,
+                    ((n as Heading).children[0] as Text).value,
+                ]);
+
+            expect(headings).to.eql([
+                [1, "Part One"],
+                [2, "Chapter One"],
+                [2, "Chapter Two"],
+                [1, "Part Two"],
+                [2, "Chapter Three"],
+            ]);
+        });
+
+        it("should treat notes more than two subfolders deep as part of their chapter", async () => {
+            const metadata = {
+                title: "Story Title",
+                filename: "storytitle.docx",
+                outdir: "~/stories",
+            };
+            const info = [
+                {
+                    name: "notey",
+                    content: "This is our story",
+                    folders: ["Part One", "Chapter One"],
+                },
+                {
+                    name: "notey 1",
+                    content: "The story continues!",
+                    folders: ["Part One", "Chapter One", "Drafts"],
+                },
+            ];
+
+            const [result, _] = uut.obsidianNotesToAST(info, metadata);
+
+            expect(result?.children.map((n) => n.type)).to.eql([
+                "heading",
+                "heading",
+                "paragraph",
+                "thematicBreak",
+                "paragraph",
+            ]);
+        });
+
         it("should ignore a note's non-relevant properties", async () => {
             const metadata = {
                 title: "Story Title",
@@ -120,8 +333,28 @@ describe("Converters", () => {
             expect(result).to.be.empty;
         });
 
-        it("should overwrite metadata from earlier notes with metadata from later notes", async () => {
-            const metadata = {
+        it("should take the short title from a note's properties", async () => {
+            const metadata: uut.ManuscriptMetadata = {
+                title: "A Very Long Story Title Indeed",
+                filename: "storytitle.docx",
+                outdir: "~/stories",
+            };
+            const info = [
+                {
+                    name: "notey",
+                    content: "This is our story",
+                    frontmatter: { shorttitle: "Long Title" },
+                },
+            ];
+
+            const [_, result] = uut.obsidianNotesToAST(info, metadata);
+
+            expect(metadata.shorttitle).to.equal("Long Title");
+            expect(result).to.be.empty;
+        });
+
+        it("should take genre, description and document properties from notes' properties", async () => {
+            const metadata: uut.ManuscriptMetadata = {
                 title: "Story Title",
                 filename: "storytitle.docx",
                 outdir: "~/stories",
@@ -131,32 +364,77 @@ describe("Converters", () => {
                     name: "notey",
                     content: "This is our story",
                     frontmatter: {
-                        title: "Title 1",
-                        author: "authey!",
-                        contact: "3-2-1 contact",
+                        genre: "Science fiction",
+                        description: "A story about a story",
+                        docproperties: { Market: "Clarkesworld", Draft: 3 },
                     },
                 },
+            ];
+
+            const [_, result] = uut.obsidianNotesToAST(info, metadata);
+
+            expect(metadata.genre).to.equal("Science fiction");
+            expect(metadata.description).to.equal("A story about a story");
+            expect(metadata.docproperties).to.eql({
+                Market: "Clarkesworld",
+                Draft: "3",
+            });
+            expect(result).to.be.empty;
+        });
+
+        it("should turn off the end marker when a note's endmarker property is false", async () => {
+            const metadata: uut.ManuscriptMetadata = {
+                title: "Story Title",
+                filename: "storytitle.docx",
+                outdir: "~/stories",
+            };
+            const info = [
                 {
-                    name: "notey 1",
-                    content: "The story continues!",
-                    frontmatter: { title: "Title 2", contact: "new contact" },
+                    name: "notey",
+                    content: "This is our story",
+                    frontmatter: { endmarker: false },
                 },
             ];
 
-            uut.obsidianNotesToAST(info, metadata);
+            const [_, result] = uut.obsidianNotesToAST(info, metadata);
 
-            expect(metadata).to.eql({
-                title: "Title 2",
+            expect(metadata.endmarker).to.equal("");
+            expect(result).to.be.empty;
+        });
+
+        it("should use a note's wordcount property instead of the counted words", async () => {
+            const metadata: uut.ManuscriptMetadata = {
+                title: "Story Title",
                 filename: "storytitle.docx",
                 outdir: "~/stories",
-                author: "authey!",
-                contact: "new contact",
-                wordcount: 7,
-            });
+            };
+            const info = [
+                {
+                    name: "note1",
+                    content: "This is our story",
+                    frontmatter: { wordcount: "4,500" },
+                },
+                {
+                    name: "note2",
+                    content: "This is more story",
+                },
+            ];
+
+            const [_, result, wordCounts] = uut.obsidianNotesToAST(
+                info,
+                metadata
+            );
+
+            expect(metadata.wordcount).to.equal(4500);
+            expect(wordCounts).to.eql([
+                { name: "note1", count: 4 },
+                { name: "note2", count: 4 },
+            ]);
+            expect(result).to.be.empty;
         });
 
-        it("should notify the user if multiple notes contain the same metadata property", async () => {
-            const metadata = {
+        it("should ignore a wordcount property that isn't a number", async () => {
+            const metadata: uut.ManuscriptMetadata = {
                 title: "Story Title",
                 filename: "storytitle.docx",
                 outdir: "~/stories",
@@ -165,27 +443,76 @@ describe("Converters", () => {
                 {
                     name: "notey",
                     content: "This is our story",
-                    frontmatter: {
-                        title: "Title 1",
-                        author: "authey!",
-                        contact: "3-2-1 contact",
-                    },
+                    frontmatter: { wordcount: "lots" },
                 },
+            ];
+
+            const [_, result] = uut.obsidianNotesToAST(info, metadata);
+
+            expect(metadata.wordcount).to.equal(4);
+            expect(result).to.eql([
+                "wordcount property on note notey isn't a number. Ignoring.",
+            ]);
+        });
+
+        it("should ignore properties of the wrong type and say why", async () => {
+            const metadata: uut.ManuscriptMetadata = {
+                title: "Story Title",
+                filename: "storytitle.docx",
+                outdir: "~/stories",
+            };
+            const info = [
                 {
-                    name: "notey 1",
-                    content: "The story continues!",
-                    frontmatter: { title: "Title 2", contact: "new contact" },
+                    name: "notey",
+                    content: "This is our story",
+                    frontmatter: {
+                        author: ["Author One", "Author Two"],
+                        anonymous: true,
+                        rights: "First North American Serial Rights",
+                        contentwarnings: [["nested"]],
+                    },
                 },
             ];
 
             const [_, result] = uut.obsidianNotesToAST(info, metadata);
 
+            expect(metadata.author).to.be.undefined;
+            expect(metadata.anonymous).to.be.true;
+            expect(metadata.rights).to.eql([
+                "First North American Serial Rights",
+            ]);
             expect(result).to.eql([
-                "Note notey 1 re-defined the following properties: title, contact",
+                "author property on note notey should be text, not a list. Ignoring.",
+                "contentwarnings property on note notey should be a list of text. Ignoring.",
             ]);
         });
 
-        it("should count the words in the notes", async () => {
+        it("should count words in the language from any note's lang property", async () => {
+            const metadata: uut.ManuscriptMetadata = {
+                title: "Story Title",
+                filename: "storytitle.docx",
+                outdir: "~/stories",
+            };
+            const info = [
+                { name: "note1", content: "猫 and dogs" },
+                { name: "note2", content: "猫", frontmatter: { lang: "ja" } },
+            ];
+
+            const [_, result, wordCounts] = uut.obsidianNotesToAST(
+                info,
+                metadata
+            );
+
+            expect(metadata.lang).to.equal("ja");
+            expect(wordCounts).to.eql([
+                { name: "note1", count: 3 },
+                { name: "note2", count: 1 },
+            ]);
+            expect(metadata.wordcount).to.equal(4);
+            expect(result).to.be.empty;
+        });
+
+        it("should combine tags from every note", async () => {
             const metadata: uut.ManuscriptMetadata = {
                 title: "Story Title",
                 filename: "storytitle.docx",
@@ -193,12 +520,127 @@ describe("Converters", () => {
             };
             const info = [
                 {
-                    name: "notey",
+                    name: "note1",
                     content: "This is our story",
+                    frontmatter: { tags: ["sf", "#space"] },
                 },
                 {
-                    name: "notey 1",
-                    content: "The story continues!",
+                    name: "note2",
+                    content: "This is more story",
+                    frontmatter: { tags: "space, robots" },
+                },
+            ];
+
+            const [_, result] = uut.obsidianNotesToAST(info, metadata);
+
+            expect(metadata.tags).to.eql(["sf", "space", "robots"]);
+            expect(result).to.be.empty;
+        });
+
+        it("should overwrite metadata from earlier notes with metadata from later notes", async () => {
+            const metadata = {
+                title: "Story Title",
+                filename: "storytitle.docx",
+                outdir: "~/stories",
+            };
+            const info = [
+                {
+                    name: "notey",
+                    content: "This is our story",
+                    frontmatter: {
+                        title: "Title 1",
+                        author: "authey!",
+                        contact: "3-2-1 contact",
+                    },
+                },
+                {
+                    name: "notey 1",
+                    content: "The story continues!",
+                    frontmatter: { title: "Title 2", contact: "new contact" },
+                },
+            ];
+
+            uut.obsidianNotesToAST(info, metadata);
+
+            expect(metadata).to.eql({
+                title: "Title 2",
+                filename: "storytitle.docx",
+                outdir: "~/stories",
+                author: "authey!",
+                contact: "new contact",
+                wordcount: 7,
+            });
+        });
+
+        it("should notify the user if multiple notes contain the same metadata property", async () => {
+            const metadata = {
+                title: "Story Title",
+                filename: "storytitle.docx",
+                outdir: "~/stories",
+            };
+            const info = [
+                {
+                    name: "notey",
+                    content: "This is our story",
+                    frontmatter: {
+                        title: "Title 1",
+                        author: "authey!",
+                        contact: "3-2-1 contact",
+                    },
+                },
+                {
+                    name: "notey 1",
+                    content: "The story continues!",
+                    frontmatter: { title: "Title 2", contact: "new contact" },
+                },
+            ];
+
+            const [_, result] = uut.obsidianNotesToAST(info, metadata);
+
+            expect(result).to.eql([
+                "Note notey 1 re-defined the following properties: title, contact",
+            ]);
+        });
+
+        it("should give each note's footnotes their own identifiers", async () => {
+            const metadata: uut.ManuscriptMetadata = {
+                title: "Story Title",
+                filename: "storytitle.docx",
+                outdir: "~/stories",
+            };
+            const info = [
+                { name: "One.md", content: "One[^1]\n\n[^1]: Note one" },
+                { name: "Two.md", content: "Two[^1]\n\n[^1]: Note two" },
+            ];
+
+            const [tree] = uut.obsidianNotesToAST(info, metadata);
+
+            const identifiers: string[] = [];
+            visit(tree, (node) => {
+                if (
+                    node.type === "footnoteReference" ||
+                    node.type === "footnoteDefinition"
+                ) {
+                    identifiers.push(node.identifier);
+                }
+            });
+            expect(identifiers).to.eql(["0-1", "0-1", "1-1", "1-1"]);
+        });
+
+        it("should count the words in the notes", async () => {
+            const metadata: uut.ManuscriptMetadata = {
+                title: "Story Title",
+                filename: "storytitle.docx",
+                outdir: "~/stories",
+            };
+            const info = [
+                {
+                    name: "notey",
+                    content: "This is our story",
+                },
+                {
+                    name: "notey 1",
+                    content: "The story continues!",
                 },
             ];
 
@@ -207,4 +649,672 @@ describe("Converters", () => {
             expect(metadata.wordcount).to.equal(7);
         });
     });
+
+    describe("Metadata Notes", () => {
+        const metadataNotes: uut.MetadataNotes = {
+            folderNotes: [
+                {
+                    path: "Stories/_manuscript.md",
+                    frontmatter: {
+                        author: "Pen Name",
+                        outdir: "~/pen-name",
+                        tags: ["sf"],
+                    },
+                },
+            ],
+            storyNote: {
+                path: "Stories/Story/_manuscript.md",
+                frontmatter: { title: "Story Title", tags: ["novelette"] },
+            },
+        };
+
+        it("should cascade metadata from folders' metadata notes to the story's", async () => {
+            const metadata: uut.ManuscriptMetadata = {
+                title: "Story",
+                filename: "story.docx",
+                outdir: "~/stories",
+                author: "Real Name",
+            };
+            const info = [{ name: "Scene.md", content: "This is our story" }];
+
+            uut.obsidianNotesToAST(
+                info,
+                metadata,
+                uut.DEFAULT_CONVERSION_OPTIONS,
+                metadataNotes
+            );
+
+            expect(metadata).to.eql({
+                title: "Story Title",
+                filename: "story.docx",
+                outdir: "~/pen-name",
+                author: "Pen Name",
+                tags: ["sf", "novelette"],
+                wordcount: 4,
+            });
+        });
+
+        it("should ignore single-story properties on folders' metadata notes", async () => {
+            const metadata: uut.ManuscriptMetadata = {
+                title: "Story",
+                filename: "story.docx",
+                outdir: "~/stories",
+            };
+            const info = [{ name: "Scene.md", content: "This is our story" }];
+
+            const [_, result] = uut.obsidianNotesToAST(
+                info,
+                metadata,
+                uut.DEFAULT_CONVERSION_OPTIONS,
+                {
+                    folderNotes: [
+                        {
+                            path: "Collection/_manuscript.md",
+                            frontmatter: {
+                                author: "Pen Name",
+                                title: "Collection",
+                                wordcount: 50000,
+                            },
+                        },
+                    ],
+                }
+            );
+
+            expect(metadata).to.include({
+                title: "Story",
+                author: "Pen Name",
+                wordcount: 4,
+            });
+            expect(result).to.eql([
+                "Ignored properties on Collection/_manuscript.md that only apply to a single story: title, wordcount",
+            ]);
+        });
+
+        it("should ignore scene notes' properties when the story has a metadata note", async () => {
+            const metadata: uut.ManuscriptMetadata = {
+                title: "Story",
+                filename: "story.docx",
+                outdir: "~/stories",
+            };
+            const info = [
+                {
+                    name: "Scene.md",
+                    content: "This is our story",
+                    frontmatter: { title: "Stray Title", order: 1 },
+                },
+            ];
+
+            const [_, result] = uut.obsidianNotesToAST(
+                info,
+                metadata,
+                uut.DEFAULT_CONVERSION_OPTIONS,
+                metadataNotes
+            );
+
+            expect(metadata.title).to.equal("Story Title");
+            expect(result).to.eql([
+                "Ignored properties on these notes, as Stories/Story/_manuscript.md sets the manuscript's properties: Scene.md (title)",
+            ]);
+        });
+
+        it("should record where each metadata value came from", async () => {
+            const metadata: uut.ManuscriptMetadata = {
+                title: "Story",
+                filename: "story.docx",
+                outdir: "~/stories",
+                contact: "me@example.com",
+            };
+            const sources: uut.MetadataSources = {
+                title: "folder name",
+                filename: "folder name",
+                outdir: "settings",
+                contact: "settings",
+            };
+            const info = [{ name: "Scene.md", content: "This is our story" }];
+
+            uut.obsidianNotesToAST(
+                info,
+                metadata,
+                uut.DEFAULT_CONVERSION_OPTIONS,
+                metadataNotes,
+                sources
+            );
+
+            expect(sources).to.eql({
+                title: "Stories/Story/_manuscript.md",
+                filename: "folder name",
+                outdir: "Stories/_manuscript.md",
+                author: "Stories/_manuscript.md",
+                contact: "settings",
+                tags: "Stories/_manuscript.md, Stories/Story/_manuscript.md",
+            });
+        });
+
+        it("should describe where each metadata value came from", () => {
+            const metadata: uut.ManuscriptMetadata = {
+                title: "Story Title",
+                filename: "story.docx",
+                outdir: "~/stories",
+                endmarker: "",
+                tags: ["sf", "novelette"],
+                docproperties: { Market: "Analog", Round: "2" },
+            };
+            const sources: uut.MetadataSources = {
+                title: "Story/_manuscript.md",
+                outdir: "settings",
+                endmarker: "Story/_manuscript.md",
+                tags: "_manuscript.md, Story/_manuscript.md",
+                docproperties: "Story/_manuscript.md",
+            };
+
+            const result = uut.describeMetadataSources(metadata, sources);
+
+            expect(result).to.equal(
+                [
+                    "Manuscript properties:",
+                    "title: Story Title (from Story/_manuscript.md)",
+                    "outdir: ~/stories (from settings)",
+                    "endmarker: (none) (from Story/_manuscript.md)",
+                    "tags: sf, novelette (from _manuscript.md, Story/_manuscript.md)",
+                    "docproperties: Market: Analog; Round: 2 (from Story/_manuscript.md)",
+                ].join("\n")
+            );
+        });
+    });
+
+    describe("Obsidian Syntax", () => {
+        /**
+         * Convert a single note's content to a Markdown AST.
+         * @param content Note's content.
+         * @param options Conversion options.
+         */
+        function convert(
+            content: string,
+            options?: Partial<uut.ConversionOptions>
+        ) {
+            const metadata = {
+                title: "Story Title",
+                filename: "storytitle.docx",
+                outdir: "~/stories",
+            };
+            const [result, _] = uut.obsidianNotesToAST(
+                [{ name: "notey", content: content }],
+                metadata,
+                { ...uut.DEFAULT_CONVERSION_OPTIONS, ...options }
+            );
+            return result;
+        }
+
+        it("should remove comments", () => {
+            const result = convert("This is %%secret%% our story");
+
+            expect(
+                ((result.children[0] as Paragraph).children[0] as Text).value
+            ).to.equal("This is  our story");
+        });
+
+        it("should remove comments that span paragraphs", () => {
+            const result = convert(
+                "This is our story\n\n%%\nSecret\n\nNotes\n%%\n\nThe end"
+            );
+
+            expect(result.children.length).to.equal(2);
+            expect(
+                ((result.children[1] as Paragraph).children[0] as Text).value
+            ).to.equal("The end");
+        });
+
+        it("should remove block IDs", () => {
+            const result = convert("This is our story ^abc-123");
+
+            expect(
+                ((result.children[0] as Paragraph).children[0] as Text).value
+            ).to.equal("This is our story");
+        });
+
+        it("should turn a wikilink into its display text", () => {
+            const result = convert("This is [[Note Name|our]] story");
+
+            expect(
+                ((result.children[0] as Paragraph).children[0] as Text).value
+            ).to.equal("This is our story");
+        });
+
+        it("should turn a wikilink without display text into the linked note's name", () => {
+            const result = convert("This is [[Folder/our]] story");
+
+            expect(
+                ((result.children[0] as Paragraph).children[0] as Text).value
+            ).to.equal("This is our story");
+        });
+
+        it("should keep highlighted text without the markers by default", () => {
+            const result = convert("This is ==our== story");
+
+            expect(
+                (result.children[0] as Paragraph).children.map(
+                    (n) => (n as Text).value
+                )
+            ).to.eql(["This is ", "our", " story"]);
+        });
+
+        it("should mark highlighted text as highlighted when configured to", () => {
+            const result = convert("This is ==our *own*== story", {
+                highlights: uut.HighlightRule.Highlight,
+            });
+            const children = (result.children[0] as Paragraph).children;
+
+            expect(children[0].data).to.be.undefined;
+            expect(children[1].data).to.eql({ highlight: "yellow" });
+            expect(children[2].type).to.equal("emphasis");
+            expect(children[2].data).to.eql({ highlight: "yellow" });
+            expect(children[3].data).to.be.undefined;
+        });
+
+        it("should remove highlighted text when configured to", () => {
+            const result = convert("This is ==our *own*== story", {
+                highlights: uut.HighlightRule.Remove,
+            });
+
+            expect(
+                (result.children[0] as Paragraph).children.map(
+                    (n) => (n as Text).value
+                )
+            ).to.eql(["This is ", " story"]);
+        });
+
+        it("should leave an unmatched highlight marker alone", () => {
+            const result = convert("x == y");
+
+            expect(
+                ((result.children[0] as Paragraph).children[0] as Text).value
+            ).to.equal("x == y");
+        });
+
+        it("should remove tags by default", () => {
+            const result = convert("This is our #draft story");
+
+            expect(
+                ((result.children[0] as Paragraph).children[0] as Text).value
+            ).to.equal("This is our  story");
+        });
+
+        it("should keep a tag's text when configured to", () => {
+            const result = convert("This is our #draft story", {
+                tags: uut.TagRule.KeepText,
+            });
+
+            expect(
+                ((result.children[0] as Paragraph).children[0] as Text).value
+            ).to.equal("This is our draft story");
+        });
+
+        it("should keep tags when configured to", () => {
+            const result = convert("This is our #draft story", {
+                tags: uut.TagRule.Keep,
+            });
+
+            expect(
+                ((result.children[0] as Paragraph).children[0] as Text).value
+            ).to.equal("This is our #draft story");
+        });
+
+        it("should not treat a number sign before a number as a tag", () => {
+            const result = convert("This is story #1");
+
+            expect(
+                ((result.children[0] as Paragraph).children[0] as Text).value
+            ).to.equal("This is story #1");
+        });
+
+        it("should remove paragraphs that only held tags", () => {
+            const result = convert("#draft #todo\n\nThis is our story");
+
+            expect(result.children.length).to.equal(1);
+            expect(
+                ((result.children[0] as Paragraph).children[0] as Text).value
+            ).to.equal("This is our story");
+        });
+
+        it("should not count removed text as words", () => {
+            const metadata: uut.ManuscriptMetadata = {
+                title: "Story Title",
+                filename: "storytitle.docx",
+                outdir: "~/stories",
+            };
+
+            uut.obsidianNotesToAST(
+                [
+                    {
+                        name: "notey",
+                        content: "This is %%not%% our #draft story ^abc",
+                    },
+                ],
+                metadata
+            );
+
+            expect(metadata.wordcount).to.equal(4);
+        });
+    });
+
+    describe("Resolve Embeds", () => {
+        /**
+         * Create an embed resolver that looks up embeds by their link text.
+         * @param targets Map of link text to embedded content.
+         */
+        function createResolver(
+            targets: Record<string, string>
+        ): uut.EmbedResolver {
+            return async (link) =>
+                link in targets
+                    ? { path: link, content: targets[link] }
+                    : undefined;
+        }
+
+        it("should replace an embed with the embedded note's content", async () => {
+            const resolver = createResolver({ "Scene 3": "Scene three." });
+
+            const result = await uut.resolveEmbeds(
+                "Before\n\n![[Scene 3]]\n\nAfter",
+                "Master",
+                resolver,
+                []
+            );
+
+            expect(result).to.equal("Before\n\nScene three.\n\nAfter");
+        });
+
+        it("should pass the link including its subpath to the resolver", async () => {
+            const resolver = createResolver({
+                "Draft#Opening": "The opening.",
+            });
+
+            const result = await uut.resolveEmbeds(
+                "![[Draft#Opening]]",
+                "Master",
+                resolver,
+                []
+            );
+
+            expect(result).to.equal("The opening.");
+        });
+
+        it("should ignore an embed's display text", async () => {
+            const resolver = createResolver({ "Scene 3": "Scene three." });
+
+            const result = await uut.resolveEmbeds(
+                "![[Scene 3|Third scene]]",
+                "Master",
+                resolver,
+                []
+            );
+
+            expect(result).to.equal("Scene three.");
+        });
+
+        it("should remove frontmatter from embedded notes", async () => {
+            const resolver = createResolver({
+                "Scene 3": "---\ntitle: Nope\n---\nScene three.",
+            });
+
+            const result = await uut.resolveEmbeds(
+                "![[Scene 3]]",
+                "Master",
+                resolver,
+                []
+            );
+
+            expect(result).to.equal("Scene three.");
+        });
+
+        it("should resolve embeds inside embedded notes", async () => {
+            const resolver = createResolver({
+                "Scene 3": "Scene three. ![[Scene 4]]",
+                "Scene 4": "Scene four.",
+            });
+
+            const result = await uut.resolveEmbeds(
+                "![[Scene 3]]",
+                "Master",
+                resolver,
+                []
+            );
+
+            expect(result).to.equal("Scene three. Scene four.");
+        });
+
+        it("should leave out and report embeds that can't be found", async () => {
+            const resolver = createResolver({});
+            const notices: string[] = [];
+
+            const result = await uut.resolveEmbeds(
+                "Before ![[Scene 3]] after",
+                "Master",
+                resolver,
+                notices
+            );
+
+            expect(result).to.equal("Before  after");
+            expect(notices).to.eql([
+                "Couldn't find embedded note Scene 3 in Master. Leaving it out.",
+            ]);
+        });
+
+        it("should leave out and report embedded files that aren't notes", async () => {
+            const resolver = createResolver({ "map.png": "" });
+            const notices: string[] = [];
+
+            const result = await uut.resolveEmbeds(
+                "![[map.png]]",
+                "Master",
+                resolver,
+                notices
+            );
+
+            expect(result).to.equal("");
+            expect(notices).to.eql([
+                "Can't include embedded file map.png from Master in the manuscript. Leaving it out.",
+            ]);
+        });
+
+        it("should leave out and report embeds that embed themselves", async () => {
+            const resolver = createResolver({
+                "Scene 3": "Three ![[Scene 4]]",
+                "Scene 4": "Four ![[Scene 3]]",
+            });
+            const notices: string[] = [];
+
+            const result = await uut.resolveEmbeds(
+                "![[Scene 3]]",
+                "Master",
+                resolver,
+                notices
+            );
+
+            expect(result).to.equal("Three Four ");
+            expect(notices).to.eql([
+                "Embedded note Scene 3 in Scene 4 embeds itself: Master -> Scene 3 -> Scene 4 -> Scene 3. Leaving it out.",
+            ]);
+        });
+
+        it("should leave embeds in code spans alone", async () => {
+            const resolver = createResolver({ "Scene 3": "Scene three." });
+
+            const result = await uut.resolveEmbeds(
+                "Type `![[Scene 3]]` to embed ![[Scene 3]]",
+                "Master",
+                resolver,
+                []
+            );
+
+            expect(result).to.equal(
+                "Type `![[Scene 3]]` to embed Scene three."
+            );
+        });
+
+        it("should leave embeds in code blocks alone", async () => {
+            const resolver = createResolver({ "Scene 3": "Scene three." });
+
+            const result = await uut.resolveEmbeds(
+                "```\n![[Scene 3]]\n```",
+                "Master",
+                resolver,
+                []
+            );
+
+            expect(result).to.equal("```\n![[Scene 3]]\n```");
+        });
+
+        it("should keep embedded lines inside a callout", async () => {
+            const resolver = createResolver({
+                "Scene 3": "Scene three.\n\nMore of it.\n",
+            });
+
+            const result = await uut.resolveEmbeds(
+                "> [!note]\n> ![[Scene 3]]\n\nAfter",
+                "Master",
+                resolver,
+                []
+            );
+
+            expect(result).to.equal(
+                "> [!note]\n> Scene three.\n> \n> More of it.\n\nAfter"
+            );
+        });
+
+        it("should keep embedded lines inside a list item", async () => {
+            const resolver = createResolver({
+                "Scene 3": "Scene three.\n\nMore of it.",
+            });
+
+            const result = await uut.resolveEmbeds(
+                "1. ![[Scene 3]]\n2. Next",
+                "Master",
+                resolver,
+                []
+            );
+
+            expect(result).to.equal(
+                "1. Scene three.\n   \n   More of it.\n2. Next"
+            );
+        });
+    });
+
+    describe("Exclusions", () => {
+        const rules: uut.ExclusionRules = {
+            tags: ["research"],
+            names: ["Outline*"],
+            folders: ["Cut*"],
+        };
+
+        it("should leave out notes whose manuscript property is false", () => {
+            const info = {
+                name: "Notes.md",
+                content: "",
+                frontmatter: { manuscript: false },
+            };
+
+            const result = uut.findExclusionReason(info, rules);
+
+            expect(result).to.equal("manuscript: false");
+        });
+
+        it("should leave out notes with an excluded tag or one nested under it", () => {
+            const info = {
+                name: "Notes.md",
+                content: "",
+                tags: ["#draft", "#Research/sources"],
+            };
+
+            const result = uut.findExclusionReason(info, rules);
+
+            expect(result).to.equal("tagged #research");
+        });
+
+        it("should leave out notes whose names match a pattern", () => {
+            const info = { name: "Outline v2.md", content: "" };
+
+            const result = uut.findExclusionReason(info, rules);
+
+            expect(result).to.equal("name matches Outline*");
+        });
+
+        it("should leave out notes in subfolders whose names match a pattern", () => {
+            const info = {
+                name: "Scene.md",
+                content: "",
+                folders: ["Part 1", "Cut scenes"],
+            };
+
+            const result = uut.findExclusionReason(info, rules);
+
+            expect(result).to.equal("in subfolder Cut scenes");
+        });
+
+        it("should keep notes that no rule matches", () => {
+            const info = {
+                name: "Scene.md",
+                content: "",
+                frontmatter: { manuscript: true },
+                tags: ["#researcher"],
+                folders: ["Chapter 1"],
+            };
+
+            const result = uut.findExclusionReason(info, rules);
+
+            expect(result).to.be.undefined;
+        });
+
+        it("should take metadata but not text from excluded notes and list them", () => {
+            const metadata: uut.ManuscriptMetadata = {
+                title: "Story Title",
+                filename: "storytitle.docx",
+                outdir: "~/stories",
+            };
+            const info = [
+                {
+                    name: "Story notes.md",
+                    content: "Remember the ending",
+                    frontmatter: { manuscript: false, title: "New Title" },
+                },
+                { name: "Scene.md", content: "This is our story" },
+            ];
+
+            const [tree, result] = uut.obsidianNotesToAST(info, metadata);
+
+            expect(metadata.title).to.equal("New Title");
+            expect(metadata.wordcount).to.equal(4);
+            expect(tree.children.length).to.equal(1);
+            expect(result).to.eql([
+                "Left out these notes: Story notes.md (manuscript: false)",
+            ]);
+        });
+
+        it("should not make parts from excluded subfolders", () => {
+            const metadata: uut.ManuscriptMetadata = {
+                title: "Story Title",
+                filename: "storytitle.docx",
+                outdir: "~/stories",
+            };
+            const info = [
+                {
+                    name: "Scene.md",
+                    content: "This is our story",
+                    folders: ["Chapter 1"],
+                },
+                {
+                    name: "Old scene.md",
+                    content: "This was our story",
+                    folders: ["Chapter 1", "Cut scenes"],
+                },
+            ];
+
+            const [tree] = uut.obsidianNotesToAST(info, metadata, {
+                ...uut.DEFAULT_CONVERSION_OPTIONS,
+                exclusions: rules,
+            });
+
+            expect(tree.children[0]).to.include({ type: "heading", depth: 2 });
+        });
+    });
 });
@@ -2,11 +2,13 @@ import { expect } from "chai";
 import "mocha";
 
 import * as docx from "docx";
-import { Paragraph, ThematicBreak } from "mdast";
+import { Blockquote, Heading, Paragraph, Root, ThematicBreak } from "mdast";
+import { IPlugin } from "mdast2docx";
 import { MutableParaOptions } from "mdast2docx/utils";
 import { createDocxModuleMock } from "./mocks/mockDocx";
 
 import * as uut from "../docxPlugins";
+import { FrontMatterPlacement } from "../profiles";
 
 describe("Plugins", () => {
     describe("Thematic Break", () => {
@@ -35,12 +37,17 @@ describe("Plugins", () => {
             expect(l.length).to.equal(1);
             expect((l[0] as any).__ctorArgs[0]).to.eql({
                 text: "#",
-                alignment: "center",
-                spacing: { before: 0 },
+                style: uut.ManuscriptStyle.SceneBreak,
+                spacing: {
+                    before: 0,
+                    after: 0,
+                    line: 240,
+                    lineRule: docx.LineRuleType.AUTO,
+                },
             });
         });
 
-        it("should double-space centered hash marks when the plugin is constructed with that setting", () => {
+        it("should leave double-spacing hash marks to the Scene Break style when the plugin is constructed with that setting", () => {
             const { docxMock } = createDocxModuleMock({
                 TextRun: docx.TextRun,
                 Paragraph: docx.Paragraph,
@@ -65,18 +72,383 @@ describe("Plugins", () => {
             expect(l.length).to.equal(1);
             expect((l[0] as any).__ctorArgs[0]).to.eql({
                 text: "#",
-                alignment: "center",
-                spacing: {
-                    before: 0,
-                    line: 480,
-                    lineRule: docx.LineRuleType.AUTO,
+                style: uut.ManuscriptStyle.SceneBreak,
+            });
+        });
+        it("should use the scene break text the plugin is constructed with", () => {
+            const { docxMock } = createDocxModuleMock({
+                TextRun: docx.TextRun,
+                Paragraph: docx.Paragraph,
+                Table: docx.Table,
+                TableRow: docx.TableRow,
+                TableCell: docx.TableCell,
+            });
+            const node: ThematicBreak = { type: "thematicBreak" };
+            const plugin = uut.shunnThematicBreakPlugin(true, "* * *");
+            if (plugin.block === undefined)
+                throw new Error("Missing block() method");
+
+            const l = plugin.block(
+                docxMock as typeof docx,
+                node,
+                {},
+                (node, paraProps) => [],
+                (node) => []
+            );
+
+            expect((l[0] as any).__ctorArgs[0]).to.eql({
+                text: "* * *",
+                style: uut.ManuscriptStyle.SceneBreak,
+            });
+        });
+    });
+
+    describe("Underline Emphasis", () => {
+        it("should turn emphasis into underlined fragments", () => {
+            const tree: Root = {
+                type: "root",
+                children: [
+                    {
+                        type: "paragraph",
+                        children: [
+                            { type: "text", value: "Not " },
+                            {
+                                type: "emphasis",
+                                children: [{ type: "text", value: "that" }],
+                            },
+                        ],
+                    },
+                ],
+            };
+            const plugin = uut.underlineEmphasisPlugin();
+            if (plugin.preprocess === undefined)
+                throw new Error("Missing preprocess() method");
+
+            plugin.preprocess(tree);
+
+            const para = tree.children[0] as Paragraph;
+            expect(para.children[0]).to.eql({ type: "text", value: "Not " });
+            expect(para.children[1]).to.eql({
+                type: "fragment",
+                children: [{ type: "text", value: "that" }],
+                data: { underline: {} },
+            });
+        });
+    });
+
+    describe("Footnotes", () => {
+        it("should upper-case footnote references' identifiers to match mdast2docx's definitions", () => {
+            const tree: Root = {
+                type: "root",
+                children: [
+                    {
+                        type: "paragraph",
+                        children: [
+                            { type: "text", value: "Text" },
+                            {
+                                type: "footnoteReference",
+                                identifier: "0-note",
+                                label: "0-Note",
+                            },
+                        ],
+                    },
+                ],
+            };
+            const plugin = uut.footnotesPlugin();
+            if (plugin.preprocess === undefined)
+                throw new Error("Missing preprocess() method");
+
+            plugin.preprocess(tree);
+
+            const para = tree.children[0] as Paragraph;
+            expect(para.children[1]).to.include({ identifier: "0-NOTE" });
+        });
+    });
+
+    describe("Nested Footnote References", () => {
+        it("should replace references inside footnotes with the numbers Word gives the notes", () => {
+            const tree: Root = {
+                type: "root",
+                children: [
+                    {
+                        type: "paragraph",
+                        children: [
+                            { type: "text", value: "Text" },
+                            { type: "footnoteReference", identifier: "b" },
+                            { type: "footnoteReference", identifier: "a" },
+                        ],
+                    },
+                    {
+                        type: "footnoteDefinition",
+                        identifier: "a",
+                        children: [
+                            {
+                                type: "paragraph",
+                                children: [
+                                    { type: "text", value: "See" },
+                                    {
+                                        type: "footnoteReference",
+                                        identifier: "b",
+                                    },
+                                    {
+                                        type: "footnoteReference",
+                                        identifier: "missing",
+                                    },
+                                ],
+                            },
+                        ],
+                    },
+                    {
+                        type: "footnoteDefinition",
+                        identifier: "b",
+                        children: [
+                            {
+                                type: "paragraph",
+                                children: [{ type: "text", value: "Note B" }],
+                            },
+                        ],
+                    },
+                ],
+            };
+
+            uut.flattenNestedFootnoteReferences(tree);
+
+            const body = tree.children[0] as Paragraph;
+            expect(body.children[1]).to.include({ type: "footnoteReference" });
+            const definition = tree.children[1] as any;
+            expect(definition.children[0].children).to.eql([
+                { type: "text", value: "See" },
+                {
+                    type: "fragment",
+                    data: { superScript: true },
+                    children: [{ type: "text", value: "1" }],
+                },
+            ]);
+        });
+    });
+
+    describe("Endnotes", () => {
+        const createTree = (): Root => ({
+            type: "root",
+            children: [
+                {
+                    type: "paragraph",
+                    children: [
+                        { type: "text", value: "One" },
+                        { type: "footnoteReference", identifier: "b" },
+                        { type: "text", value: " two" },
+                        { type: "footnoteReference", identifier: "a" },
+                    ],
+                },
+                {
+                    type: "footnoteDefinition",
+                    identifier: "a",
+                    children: [
+                        {
+                            type: "paragraph",
+                            children: [{ type: "text", value: "Note A" }],
+                        },
+                    ],
+                },
+                {
+                    type: "footnoteDefinition",
+                    identifier: "b",
+                    children: [
+                        {
+                            type: "paragraph",
+                            children: [{ type: "text", value: "Note B" }],
+                        },
+                    ],
+                },
+            ],
+        });
+
+        it("should take the footnote definitions out of the tree", () => {
+            const tree = createTree();
+
+            const definitions = uut.takeFootnoteDefinitions(tree);
+
+            expect(tree.children.length).to.equal(1);
+            expect(definitions.map((node) => node.identifier)).to.eql([
+                "a",
+                "b",
+            ]);
+        });
+
+        it("should replace footnote references with superscript numbers in the order they're referred to", async () => {
+            const tree = createTree();
+            const plugin = uut.endnotesPlugin(
+                uut.takeFootnoteDefinitions(tree)
+            );
+            if (plugin.preprocess === undefined)
+                throw new Error("Missing preprocess() method");
+
+            await plugin.preprocess(tree, {});
+
+            const para = tree.children[0] as Paragraph;
+            expect(para.children[1]).to.eql({
+                type: "fragment",
+                data: { superScript: true },
+                children: [{ type: "text", value: "1" }],
+            });
+            expect((para.children[3] as any).children[0].value).to.equal("2");
+        });
+
+        it("should put the numbered notes after a heading after the last section's text", async () => {
+            const tree = createTree();
+            const texts: string[] = [];
+            const recorder: IPlugin = {
+                block(docx, node) {
+                    if (node.type === "paragraph") {
+                        texts.push(
+                            node.children
+                                .map((child) => (child as any).value)
+                                .join("")
+                        );
+                    }
+                    return [];
                 },
+            };
+            const plugin = uut.endnotesPlugin(
+                uut.takeFootnoteDefinitions(tree),
+                "Endnotes",
+                [recorder]
+            );
+            if (
+                plugin.preprocess === undefined ||
+                plugin.postprocess === undefined
+            )
+                throw new Error("Missing preprocess() or postprocess() method");
+            const end = new docx.Paragraph({ text: "END" });
+            const sections = [{ children: [end] }];
+
+            await plugin.preprocess(tree, {});
+            plugin.postprocess(sections);
+            plugin.postprocess(sections);
+
+            expect(tree.children.length).to.equal(1);
+            expect(texts).to.eql(["Endnotes", "1. Note B", "2. Note A"]);
+            expect(sections[0].children.length).to.equal(4);
+            expect(sections[0].children[0]).to.equal(end);
+        });
+
+        it("should leave a manuscript without footnotes alone", async () => {
+            const tree: Root = {
+                type: "root",
+                children: [
+                    {
+                        type: "paragraph",
+                        children: [{ type: "text", value: "No notes" }],
+                    },
+                ],
+            };
+            const plugin = uut.endnotesPlugin(
+                uut.takeFootnoteDefinitions(tree)
+            );
+            if (
+                plugin.preprocess === undefined ||
+                plugin.postprocess === undefined
+            )
+                throw new Error("Missing preprocess() or postprocess() method");
+            const sections = [{ children: [] }];
+
+            await plugin.preprocess(tree, {});
+            plugin.postprocess(sections);
+
+            expect(tree.children.length).to.equal(1);
+            expect(sections[0].children).to.be.empty;
+        });
+    });
+
+    describe("Manuscript Styles", () => {
+        it('should double-space the body text and give it a 0.5" first line indent', () => {
+            // No arrange
+
+            const styles = uut.createManuscriptStyles();
+
+            const body = styles.find((s) => s.id === uut.ManuscriptStyle.Body);
+            expect(body?.name).to.equal("Manuscript Body");
+            expect(body?.paragraph?.indent).to.eql({ firstLine: 720 });
+            expect(body?.paragraph?.spacing).to.eql({
+                before: 0,
+                after: 0,
+                line: 480,
+                lineRule: docx.LineRuleType.AUTO,
             });
         });
+
+        it("should use the line spacing and indent it's called with", () => {
+            // No arrange
+
+            const styles = uut.createManuscriptStyles(360, 1440);
+
+            const body = styles.find((s) => s.id === uut.ManuscriptStyle.Body);
+            expect(body?.paragraph?.indent).to.eql({ firstLine: 1440 });
+            expect(body?.paragraph?.spacing?.line).to.equal(360);
+        });
+
+        it("should control widows, orphans and lone scene breaks and headings by default", () => {
+            // No arrange
+
+            const styles = uut.createManuscriptStyles();
+
+            expect(
+                styles.map((s) => [
+                    s.id,
+                    (s.paragraph as { widowControl?: boolean }).widowControl,
+                    s.paragraph?.keepNext,
+                    s.paragraph?.keepLines,
+                ])
+            ).to.eql([
+                [uut.ManuscriptStyle.Body, true, undefined, undefined],
+                [uut.ManuscriptStyle.SceneBreak, undefined, true, undefined],
+                [uut.ManuscriptStyle.FrontMatter, undefined, undefined, true],
+                [
+                    uut.ManuscriptStyle.ChapterHeading,
+                    undefined,
+                    true,
+                    undefined,
+                ],
+            ]);
+        });
+
+        it("should turn off pagination control when asked", () => {
+            // No arrange
+
+            const styles = uut.createManuscriptStyles(480, 720, false);
+
+            expect(
+                styles.map((s) => [
+                    (s.paragraph as { widowControl?: boolean }).widowControl,
+                    s.paragraph?.keepNext,
+                    s.paragraph?.keepLines,
+                ])
+            ).to.eql([
+                [false, undefined, undefined],
+                [undefined, false, undefined],
+                [undefined, undefined, false],
+                [undefined, false, undefined],
+            ]);
+        });
+
+        it("should base the scene break and chapter heading styles on the body text", () => {
+            // No arrange
+
+            const styles = uut.createManuscriptStyles();
+
+            expect(
+                styles.map((s) => [s.name, s.basedOn, s.paragraph?.alignment])
+            ).to.eql([
+                ["Manuscript Body", undefined, "left"],
+                ["Scene Break", uut.ManuscriptStyle.Body, "center"],
+                ["Front Matter", undefined, "left"],
+                ["Chapter Heading", uut.ManuscriptStyle.Body, "center"],
+            ]);
+        });
     });
 
     describe("Double Space and Indent Paras", () => {
-        it('should add a 0.5" first line indent to a paragraph', () => {
+        it("should give a paragraph the Manuscript Body style", () => {
             const node: Paragraph = {
                 type: "paragraph",
                 children: [],
@@ -95,10 +467,10 @@ describe("Plugins", () => {
                 (node) => []
             );
 
-            expect(result.indent).to.eql({ firstLine: 720 });
+            expect(result.style).to.equal(uut.ManuscriptStyle.Body);
         });
 
-        it("should double space a paragraph", () => {
+        it("should remove indents that would override the style's", () => {
             const node: Paragraph = {
                 type: "paragraph",
                 children: [],
@@ -107,7 +479,9 @@ describe("Plugins", () => {
             if (plugin.block === undefined)
                 throw new Error("Missing block() method");
 
-            const result: MutableParaOptions = {};
+            const result: MutableParaOptions = {
+                indent: { left: 720, hanging: 360 },
+            };
             plugin.block(
                 docx,
                 // @ts-expect-error
@@ -117,11 +491,8 @@ describe("Plugins", () => {
                 (node) => []
             );
 
-            expect(result.spacing).to.eql({
-                before: 0,
-                line: 480,
-                lineRule: docx.LineRuleType.AUTO,
-            });
+            expect(result).to.not.have.property("indent");
+            expect(result).to.not.have.property("spacing");
         });
     });
 
@@ -141,6 +512,7 @@ describe("Plugins", () => {
                 "About 700 words",
                 "Author",
                 "Author\nemail@gmail.com",
+                undefined,
                 docxMock as unknown as typeof docx
             );
             if (plugin.postprocess === undefined)
@@ -175,6 +547,7 @@ describe("Plugins", () => {
                 "About 700 words",
                 "Author",
                 undefined,
+                undefined,
                 docxMock as unknown as typeof docx
             );
             if (plugin.postprocess === undefined)
@@ -204,6 +577,7 @@ describe("Plugins", () => {
                 "About 700 words",
                 "Author",
                 "Author\nemail@gmail.com",
+                undefined,
                 docxMock as unknown as typeof docx
             );
             if (plugin.postprocess === undefined)
@@ -241,6 +615,7 @@ describe("Plugins", () => {
                 "About 700 words",
                 "Authorr",
                 "Author\nemail@gmail.com",
+                undefined,
                 docxMock as unknown as typeof docx
             );
             if (plugin.postprocess === undefined)
@@ -271,6 +646,7 @@ describe("Plugins", () => {
                 "About 700 words",
                 "Authorr",
                 "Author\nemail@gmail.com",
+                undefined,
                 docxMock as unknown as typeof docx
             );
             if (plugin.postprocess === undefined)
@@ -298,6 +674,7 @@ describe("Plugins", () => {
                 "About 700 words",
                 "Authorr",
                 "Author\nemail@gmail.com",
+                undefined,
                 docxMock as unknown as typeof docx
             );
             if (plugin.postprocess === undefined)
@@ -335,6 +712,7 @@ describe("Plugins", () => {
                 "About 700 words",
                 "Authorr",
                 "Author\nemail@gmail.com",
+                undefined,
                 docxMock as unknown as typeof docx
             );
             if (plugin.postprocess === undefined)
@@ -377,6 +755,7 @@ describe("Plugins", () => {
                 "About 700 words",
                 "Authorr",
                 "Author\nemail@gmail.com",
+                undefined,
                 docxMock as unknown as typeof docx
             );
             if (plugin.postprocess === undefined)
@@ -388,5 +767,684 @@ describe("Plugins", () => {
 
             expect(result.length).to.equal(15); // ends with title, author, blank para, first line para
         });
+
+        it("should put extra lines under the word count", () => {
+            const { docxMock } = createDocxModuleMock({
+                TextRun: docx.TextRun,
+                Paragraph: docx.Paragraph,
+                Table: docx.Table,
+                TableRow: docx.TableRow,
+                TableCell: docx.TableCell,
+            });
+
+            const sections = [{ children: [] }];
+            const plugin = uut.addFrontMatterPlugin(
+                "Story Title",
+                "About 700 words",
+                "Author",
+                "Author\nemail@gmail.com",
+                {
+                    lines: ["First North American Serial Rights"],
+                    placement: FrontMatterPlacement.Table,
+                },
+                docxMock as unknown as typeof docx
+            );
+            if (plugin.postprocess === undefined)
+                throw new Error("Missing postprocess() method");
+
+            plugin.postprocess(sections);
+            const row = (sections[0].children[0] as any).__ctorArgs[0].rows[0];
+            const rightCell = row.__ctorArgs[0].children[1];
+            const result = rightCell.__ctorArgs[0].children;
+
+            expect(result.length).to.equal(2);
+            expect(result[1].__ctorArgs[0]).to.include({
+                text: "First North American Serial Rights",
+                alignment: "right",
+            });
+        });
+
+        it("should put extra lines centered below the byline", () => {
+            const { docxMock } = createDocxModuleMock({
+                TextRun: docx.TextRun,
+                Paragraph: docx.Paragraph,
+                Table: docx.Table,
+                TableRow: docx.TableRow,
+                TableCell: docx.TableCell,
+            });
+
+            const sections = [{ children: [] }];
+            const plugin = uut.addFrontMatterPlugin(
+                "Story Title",
+                "About 700 words",
+                "Authorr",
+                "Author\nemail@gmail.com",
+                {
+                    lines: ["Content warnings: grief"],
+                    placement: FrontMatterPlacement.Byline,
+                },
+                docxMock as unknown as typeof docx
+            );
+            if (plugin.postprocess === undefined)
+                throw new Error("Missing postprocess() method");
+
+            plugin.postprocess(sections);
+            const result = sections[0].children as any[];
+
+            expect(result[12].__ctorArgs[0].text).to.equal("by Authorr");
+            expect(result[13].__ctorArgs[0]).to.include({
+                text: "Content warnings: grief",
+                alignment: "center",
+            });
+            expect(result[14].__ctorArgs[0].text).to.equal("");
+        });
+    });
+
+    describe("Closing Matter", () => {
+        it("should add a centered end marker after the last section's text", () => {
+            const { docxMock } = createDocxModuleMock({
+                Paragraph: docx.Paragraph,
+            });
+            const body = new docx.Paragraph({ text: "The end of the story" });
+            const sections = [{ children: [] }, { children: [body] }];
+            const plugin = uut.closingMatterPlugin(
+                "# # #",
+                docxMock as unknown as typeof docx
+            );
+            if (plugin.postprocess === undefined)
+                throw new Error("Missing postprocess() method");
+
+            plugin.postprocess(sections);
+
+            expect(sections[0].children).to.be.empty;
+            expect(sections[1].children.length).to.equal(2);
+            expect(sections[1].children[0]).to.equal(body);
+            expect((sections[1].children[1] as any).__ctorArgs[0]).to.eql({
+                text: "# # #",
+                style: uut.ManuscriptStyle.SceneBreak,
+            });
+        });
+
+        it("should only add the end marker once when postprocessing more than once", () => {
+            const sections = [{ children: [] }];
+            const plugin = uut.closingMatterPlugin();
+            if (plugin.postprocess === undefined)
+                throw new Error("Missing postprocess() method");
+
+            plugin.postprocess(sections);
+            plugin.postprocess(sections);
+
+            expect(sections[0].children.length).to.equal(1);
+        });
+    });
+
+    describe("Novel Title Page", () => {
+        it("should add the title page as its own section before the novel", () => {
+            const { docxMock } = createDocxModuleMock({
+                TextRun: docx.TextRun,
+                Paragraph: docx.Paragraph,
+                Table: docx.Table,
+                TableRow: docx.TableRow,
+                TableCell: docx.TableCell,
+            });
+
+            const body = {
+                children: [
+                    new docxMock.Paragraph({
+                        text: "First line",
+                    }),
+                ],
+            };
+            const sections = [body];
+            const plugin = uut.novelTitlePagePlugin(
+                "Novel Title",
+                "about 88,000 words",
+                "Authorr",
+                "Author\nemail@gmail.com",
+                undefined,
+                undefined,
+                docxMock as unknown as typeof docx
+            );
+            if (plugin.postprocess === undefined)
+                throw new Error("Missing postprocess() method");
+
+            plugin.postprocess(sections);
+
+            expect(sections.length).to.equal(2);
+            expect(sections[1]).to.equal(body);
+        });
+
+        it("should put contact info, word count, title and author on the title page", () => {
+            const { docxMock } = createDocxModuleMock({
+                TextRun: docx.TextRun,
+                Paragraph: docx.Paragraph,
+                Table: docx.Table,
+                TableRow: docx.TableRow,
+                TableCell: docx.TableCell,
+            });
+
+            const sections = [{ children: [] }];
+            const plugin = uut.novelTitlePagePlugin(
+                "Novel Title",
+                "about 88,000 words",
+                "Authorr",
+                "Author\nemail@gmail.com",
+                undefined,
+                undefined,
+                docxMock as unknown as typeof docx
+            );
+            if (plugin.postprocess === undefined)
+                throw new Error("Missing postprocess() method");
+
+            plugin.postprocess(sections);
+            const result = sections[0].children as any[];
+            const row = result[0].__ctorArgs[0].rows[0];
+            const leftCell = row.__ctorArgs[0].children[0];
+            const contactRuns =
+                leftCell.__ctorArgs[0].children[0].__ctorArgs[0].children;
+            const rightCell = row.__ctorArgs[0].children[1];
+            const wordCountPara = rightCell.__ctorArgs[0].children[0];
+
+            expect(contactRuns[0].__ctorArgs[0]).to.equal("Author");
+            expect(wordCountPara.__ctorArgs[0].text).to.equal(
+                "about 88,000 words"
+            );
+            expect(result[result.length - 2].__ctorArgs[0].text).to.equal(
+                "Novel Title"
+            );
+            expect(result[result.length - 1].__ctorArgs[0].text).to.equal(
+                "by Authorr"
+            );
+        });
+
+        it("should give the title page the passed section properties", () => {
+            const { docxMock } = createDocxModuleMock({
+                TextRun: docx.TextRun,
+                Paragraph: docx.Paragraph,
+                Table: docx.Table,
+                TableRow: docx.TableRow,
+                TableCell: docx.TableCell,
+            });
+
+            const sections = [{ children: [] }] as any[];
+            const properties = { page: { margin: { top: "1in" } } };
+            const plugin = uut.novelTitlePagePlugin(
+                "Novel Title",
+                "about 88,000 words",
+                undefined,
+                undefined,
+                undefined,
+                properties,
+                docxMock as unknown as typeof docx
+            );
+            if (plugin.postprocess === undefined)
+                throw new Error("Missing postprocess() method");
+
+            plugin.postprocess(sections);
+
+            expect(sections[0].properties).to.equal(properties);
+        });
+
+        it("should only add the title page once even if called twice", () => {
+            const { docxMock } = createDocxModuleMock({
+                TextRun: docx.TextRun,
+                Paragraph: docx.Paragraph,
+                Table: docx.Table,
+                TableRow: docx.TableRow,
+                TableCell: docx.TableCell,
+            });
+
+            const sections = [{ children: [] }];
+            const plugin = uut.novelTitlePagePlugin(
+                "Novel Title",
+                "about 88,000 words",
+                "Authorr",
+                "Author\nemail@gmail.com",
+                undefined,
+                undefined,
+                docxMock as unknown as typeof docx
+            );
+            if (plugin.postprocess === undefined)
+                throw new Error("Missing postprocess() method");
+
+            plugin.postprocess(sections);
+            plugin.postprocess(sections);
+
+            expect(sections.length).to.equal(2);
+        });
+    });
+
+    describe("Novel Chapter Heading", () => {
+        it("should start a chapter heading on a new page", () => {
+            const { docxMock } = createDocxModuleMock({
+                TextRun: docx.TextRun,
+                Paragraph: docx.Paragraph,
+                Table: docx.Table,
+                TableRow: docx.TableRow,
+                TableCell: docx.TableCell,
+            });
+            const node: Heading = {
+                type: "heading",
+                depth: 2,
+                children: [{ type: "text", value: "Chapter One" }],
+            };
+            const plugin = uut.novelChapterHeadingPlugin();
+            if (plugin.block === undefined)
+                throw new Error("Missing block() method");
+
+            const l = plugin.block(
+                docxMock as typeof docx,
+                node,
+                {},
+                (node, paraProps) => [],
+                (node) => []
+            );
+
+            expect(l.length).to.equal(1);
+            expect((l[0] as any).__ctorArgs[0].pageBreakBefore).to.be.true;
+        });
+
+        it("should put a chapter heading about a third of the way down the page", () => {
+            const { docxMock } = createDocxModuleMock({
+                TextRun: docx.TextRun,
+                Paragraph: docx.Paragraph,
+                Table: docx.Table,
+                TableRow: docx.TableRow,
+                TableCell: docx.TableCell,
+            });
+            const node: Heading = {
+                type: "heading",
+                depth: 1,
+                children: [{ type: "text", value: "Chapter One" }],
+            };
+            const plugin = uut.novelChapterHeadingPlugin();
+            if (plugin.block === undefined)
+                throw new Error("Missing block() method");
+
+            const l = plugin.block(
+                docxMock as typeof docx,
+                node,
+                {},
+                (node, paraProps) => [],
+                (node) => []
+            );
+
+            expect((l[0] as any).__ctorArgs[0].style).to.equal(
+                uut.ManuscriptStyle.ChapterHeading
+            );
+            expect((l[0] as any).__ctorArgs[0].spacing.before).to.equal(
+                docx.convertInchesToTwip(2.5)
+            );
+        });
+
+        it("should use the heading's text as the chapter heading", () => {
+            const { docxMock } = createDocxModuleMock({
+                TextRun: docx.TextRun,
+                Paragraph: docx.Paragraph,
+                Table: docx.Table,
+                TableRow: docx.TableRow,
+                TableCell: docx.TableCell,
+            });
+            const node: Heading = {
+                type: "heading",
+                depth: 2,
+                children: [{ type: "text", value: "Chapter One" }],
+            };
+            const runs = [new docxMock.TextRun("Chapter One")];
+            const plugin = uut.novelChapterHeadingPlugin();
+            if (plugin.block === undefined)
+                throw new Error("Missing block() method");
+
+            const l = plugin.block(
+                docxMock as typeof docx,
+                node,
+                {},
+                (node, paraProps) => [],
+                (node) => runs
+            );
+
+            expect((l[0] as any).__ctorArgs[0].children).to.equal(runs);
+        });
+
+        it("should leave lower-level headings alone", () => {
+            const { docxMock } = createDocxModuleMock({
+                TextRun: docx.TextRun,
+                Paragraph: docx.Paragraph,
+                Table: docx.Table,
+                TableRow: docx.TableRow,
+                TableCell: docx.TableCell,
+            });
+            const node: Heading = {
+                type: "heading",
+                depth: 3,
+                children: [{ type: "text", value: "Aside" }],
+            };
+            const plugin = uut.novelChapterHeadingPlugin();
+            if (plugin.block === undefined)
+                throw new Error("Missing block() method");
+
+            const l = plugin.block(
+                docxMock as typeof docx,
+                node,
+                {},
+                (node, paraProps) => [],
+                (node) => []
+            );
+
+            expect(l).to.be.empty;
+            expect(node.type).to.equal("heading");
+        });
+    });
+
+    describe("Manuscript Heading", () => {
+        it("should give a chapter heading the Chapter Heading style", () => {
+            const { docxMock } = createDocxModuleMock({
+                TextRun: docx.TextRun,
+                Paragraph: docx.Paragraph,
+                Table: docx.Table,
+                TableRow: docx.TableRow,
+                TableCell: docx.TableCell,
+            });
+            const node: Heading = {
+                type: "heading",
+                depth: 2,
+                children: [{ type: "text", value: "Chapter One" }],
+            };
+            const runs = [new docxMock.TextRun("Chapter One")];
+            const plugin = uut.manuscriptHeadingPlugin();
+            if (plugin.block === undefined)
+                throw new Error("Missing block() method");
+
+            const l = plugin.block(
+                docxMock as typeof docx,
+                node,
+                {},
+                (node, paraProps) => [],
+                (node) => runs
+            );
+
+            expect(l.length).to.equal(1);
+            expect((l[0] as any).__ctorArgs[0].style).to.equal(
+                uut.ManuscriptStyle.ChapterHeading
+            );
+            expect((l[0] as any).__ctorArgs[0].pageBreakBefore).to.be.false;
+            expect((l[0] as any).__ctorArgs[0].children).to.equal(runs);
+            expect(node.type).to.equal("");
+        });
+
+        it("should start a part or chapter heading on a new page when asked", () => {
+            const { docxMock } = createDocxModuleMock({
+                TextRun: docx.TextRun,
+                Paragraph: docx.Paragraph,
+                Table: docx.Table,
+                TableRow: docx.TableRow,
+                TableCell: docx.TableCell,
+            });
+            const node: Heading = {
+                type: "heading",
+                depth: 1,
+                children: [{ type: "text", value: "Part One" }],
+            };
+            const plugin = uut.manuscriptHeadingPlugin(true);
+            if (plugin.block === undefined)
+                throw new Error("Missing block() method");
+
+            const l = plugin.block(
+                docxMock as typeof docx,
+                node,
+                {},
+                (node, paraProps) => [],
+                (node) => []
+            );
+
+            expect((l[0] as any).__ctorArgs[0].pageBreakBefore).to.be.true;
+        });
+
+        it("should keep a lower-level heading as a scene title", () => {
+            const { docxMock } = createDocxModuleMock({
+                TextRun: docx.TextRun,
+                Paragraph: docx.Paragraph,
+                Table: docx.Table,
+                TableRow: docx.TableRow,
+                TableCell: docx.TableCell,
+            });
+            const node: Heading = {
+                type: "heading",
+                depth: 3,
+                children: [{ type: "text", value: "Morning" }],
+            };
+            const plugin = uut.manuscriptHeadingPlugin(true);
+            if (plugin.block === undefined)
+                throw new Error("Missing block() method");
+
+            const l = plugin.block(
+                docxMock as typeof docx,
+                node,
+                {},
+                (node, paraProps) => [],
+                (node) => []
+            );
+
+            expect(l.length).to.equal(1);
+            expect((l[0] as any).__ctorArgs[0].style).to.equal(
+                uut.ManuscriptStyle.ChapterHeading
+            );
+            expect((l[0] as any).__ctorArgs[0].pageBreakBefore).to.be.false;
+        });
+
+        it("should drop a lower-level heading when asked", () => {
+            const { docxMock } = createDocxModuleMock({
+                TextRun: docx.TextRun,
+                Paragraph: docx.Paragraph,
+                Table: docx.Table,
+                TableRow: docx.TableRow,
+                TableCell: docx.TableCell,
+            });
+            const node: Heading = {
+                type: "heading",
+                depth: 4,
+                children: [{ type: "text", value: "Morning" }],
+            };
+            const plugin = uut.manuscriptHeadingPlugin(
+                false,
+                uut.LowerHeadingRule.Drop
+            );
+            if (plugin.block === undefined)
+                throw new Error("Missing block() method");
+
+            const l = plugin.block(
+                docxMock as typeof docx,
+                node,
+                {},
+                (node, paraProps) => [],
+                (node) => []
+            );
+
+            expect(l).to.be.empty;
+            expect(node.type).to.equal("");
+        });
+
+        it("should leave other nodes alone", () => {
+            const { docxMock } = createDocxModuleMock({
+                TextRun: docx.TextRun,
+                Paragraph: docx.Paragraph,
+                Table: docx.Table,
+                TableRow: docx.TableRow,
+                TableCell: docx.TableCell,
+            });
+            const node: Paragraph = {
+                type: "paragraph",
+                children: [{ type: "text", value: "Text" }],
+            };
+            const plugin = uut.manuscriptHeadingPlugin();
+            if (plugin.block === undefined)
+                throw new Error("Missing block() method");
+
+            const l = plugin.block(
+                docxMock as typeof docx,
+                node,
+                {},
+                (node, paraProps) => [],
+                (node) => []
+            );
+
+            expect(l).to.be.empty;
+            expect(node.type).to.equal("paragraph");
+        });
+    });
+
+    describe("Callout Block", () => {
+        it("should indent a callout's paragraphs without its first line", () => {
+            const { docxMock } = createDocxModuleMock({
+                TextRun: docx.TextRun,
+                Paragraph: docx.Paragraph,
+                Table: docx.Table,
+                TableRow: docx.TableRow,
+                TableCell: docx.TableCell,
+            });
+            const node: Blockquote = {
+                type: "blockquote",
+                children: [
+                    {
+                        type: "paragraph",
+                        children: [
+                            {
+                                type: "text",
+                                value: "[!letter]- From Mom\nDear Sam,",
+                            },
+                        ],
+                    },
+                    {
+                        type: "paragraph",
+                        children: [
+                            { type: "text", value: "Wish you were here." },
+                        ],
+                    },
+                ],
+            };
+            const paras = [new docxMock.Paragraph("Dear Sam,")];
+            const plugin = uut.calloutBlockPlugin(uut.CalloutType.Letter, 1440);
+            if (plugin.block === undefined)
+                throw new Error("Missing block() method");
+
+            const l = plugin.block(
+                docxMock as typeof docx,
+                node,
+                {},
+                (node, paraProps) => paras,
+                (node) => []
+            );
+
+            expect(l).to.equal(paras);
+            expect(node.type).to.equal("");
+            expect(node.children).to.eql([
+                {
+                    type: "paragraph",
+                    data: {
+                        indent: { left: 1440, right: 1440, firstLine: 0 },
+                    },
+                    children: [{ type: "text", value: "Dear Sam," }],
+                },
+                {
+                    type: "paragraph",
+                    data: {
+                        indent: { left: 1440, right: 1440, firstLine: 0 },
+                    },
+                    children: [{ type: "text", value: "Wish you were here." }],
+                },
+            ]);
+        });
+
+        it("should align an attribution line right", () => {
+            const { docxMock } = createDocxModuleMock({
+                TextRun: docx.TextRun,
+                Paragraph: docx.Paragraph,
+                Table: docx.Table,
+                TableRow: docx.TableRow,
+                TableCell: docx.TableCell,
+            });
+            const node: Blockquote = {
+                type: "blockquote",
+                children: [
+                    {
+                        type: "paragraph",
+                        children: [
+                            {
+                                type: "text",
+                                value: "[!epigraph]\nAll happy families are alike.\n— ",
+                            },
+                            {
+                                type: "emphasis",
+                                children: [
+                                    { type: "text", value: "Anna Karenina" },
+                                ],
+                            },
+                        ],
+                    },
+                ],
+            };
+            const plugin = uut.calloutBlockPlugin(uut.CalloutType.Epigraph);
+            if (plugin.block === undefined)
+                throw new Error("Missing block() method");
+
+            const l = plugin.block(
+                docxMock as typeof docx,
+                node,
+                {},
+                (node, paraProps) => [],
+                (node) => []
+            );
+
+            expect(node.children.length).to.equal(2);
+            expect(node.children[0].data).to.not.have.property("alignment");
+            expect(node.children[1]).to.eql({
+                type: "paragraph",
+                data: {
+                    indent: { left: 720, right: 720, firstLine: 0 },
+                    alignment: "right",
+                },
+                children: [
+                    { type: "text", value: "— " },
+                    {
+                        type: "emphasis",
+                        children: [{ type: "text", value: "Anna Karenina" }],
+                    },
+                ],
+            });
+        });
+
+        it("should leave other callouts and block quotes alone", () => {
+            const { docxMock } = createDocxModuleMock({
+                TextRun: docx.TextRun,
+                Paragraph: docx.Paragraph,
+                Table: docx.Table,
+                TableRow: docx.TableRow,
+                TableCell: docx.TableCell,
+            });
+            const node: Blockquote = {
+                type: "blockquote",
+                children: [
+                    {
+                        type: "paragraph",
+                        children: [{ type: "text", value: "[!note]\nAside" }],
+                    },
+                ],
+            };
+            const plugin = uut.calloutBlockPlugin(uut.CalloutType.Document);
+            if (plugin.block === undefined)
+                throw new Error("Missing block() method");
+
+            const l = plugin.block(
+                docxMock as typeof docx,
+                node,
+                {},
+                (node, paraProps) => [],
+                (node) => []
+            );
+
+            expect(l).to.be.empty;
+            expect(node.type).to.equal("blockquote");
+            expect(node.children[0].data).to.be.undefined;
+        });
     });
 });
@@ -0,0 +1,196 @@
+import { expect } from "chai";
+import "mocha";
+
+import * as docx from "docx";
+import JSZip from "jszip";
+
+import * as uut from "../docxTemplate";
+
+/**
+ * Create a .docx file to use as a template or a generated manuscript.
+ * @param options Section and style options for the document.
+ * @returns The file's contents.
+ */
+function createDocx(
+    options: {
+        section?: Omit<docx.ISectionOptions, "children">;
+        styles?: docx.IStylesOptions;
+    } = {}
+): Promise<ArrayBuffer> {
+    return docx.Packer.toArrayBuffer(
+        new docx.Document({
+            styles: options.styles,
+            sections: [
+                {
+                    ...options.section,
+                    children: [new docx.Paragraph("Text")],
+                },
+            ],
+        })
+    );
+}
+
+/**
+ * Read a part of a .docx file.
+ * @param data The file's contents.
+ * @param path Part's path, such as `word/styles.xml`.
+ * @returns The part's XML.
+ */
+async function readPart(data: ArrayBuffer, path: string): Promise<string> {
+    const zip = await JSZip.loadAsync(data);
+    return (await zip.file(path)?.async("string")) ?? "";
+}
+
+describe("Docx Template", () => {
+    describe("Read Docx Template", () => {
+        it("should read the page size and margins", async () => {
+            const data = await createDocx({
+                section: {
+                    properties: {
+                        page: {
+                            size: { width: 11906, height: 16838 },
+                            margin: {
+                                top: 1134,
+                                right: 1134,
+                                bottom: 1134,
+                                left: 1701,
+                            },
+                        },
+                    },
+                },
+            });
+
+            const template = await uut.readDocxTemplate(data);
+
+            expect(template.page?.size).to.eql({ width: 11906, height: 16838 });
+            expect(template.page?.margin).to.include({
+                top: 1134,
+                right: 1134,
+                bottom: 1134,
+                left: 1701,
+            });
+        });
+
+        it("should read the styles, header and footer", async () => {
+            const data = await createDocx({
+                section: {
+                    headers: {
+                        default: new docx.Header({
+                            children: [new docx.Paragraph("Agency header")],
+                        }),
+                    },
+                    footers: {
+                        default: new docx.Footer({
+                            children: [new docx.Paragraph("Agency footer")],
+                        }),
+                    },
+                },
+            });
+
+            const template = await uut.readDocxTemplate(data);
+
+            expect(template.styles).to.contain("<w:styles");
+            expect(template.header).to.contain("Agency header");
+            expect(template.footer).to.contain("Agency footer");
+            expect(template.warnings).to.be.empty;
+        });
+
+        it("should reject a file that isn't a Word document", async () => {
+            const data = new TextEncoder().encode("Not a docx").buffer;
+
+            let error: Error | undefined;
+            try {
+                await uut.readDocxTemplate(data);
+            } catch (e) {
+                error = e as Error;
+            }
+
+            expect(error?.message).to.equal("isn't a Word document");
+        });
+    });
+
+    describe("Apply Docx Template", () => {
+        it("should keep the template's styles and add the document's other styles", async () => {
+            const template = await uut.readDocxTemplate(
+                await createDocx({
+                    styles: {
+                        paragraphStyles: [
+                            {
+                                id: "ManuscriptBody",
+                                name: "Manuscript Body",
+                                run: { font: "Garamond" },
+                            },
+                        ],
+                    },
+                })
+            );
+            const data = await createDocx({
+                styles: {
+                    paragraphStyles: [
+                        {
+                            id: "ManuscriptBody",
+                            name: "Manuscript Body",
+                            run: { font: "Courier New" },
+                        },
+                        { id: "SceneBreak", name: "Scene Break" },
+                    ],
+                },
+            });
+
+            const result = await uut.applyDocxTemplate(data, template);
+
+            const styles = await readPart(result, "word/styles.xml");
+            expect(styles).to.contain("Garamond");
+            expect(styles).to.not.contain("Courier New");
+            expect(styles).to.contain('w:styleId="SceneBreak"');
+        });
+
+        it("should replace the document's header and add the template's footer", async () => {
+            const template = await uut.readDocxTemplate(
+                await createDocx({
+                    section: {
+                        headers: {
+                            default: new docx.Header({
+                                children: [new docx.Paragraph("Agency header")],
+                            }),
+                        },
+                        footers: {
+                            default: new docx.Footer({
+                                children: [new docx.Paragraph("Agency footer")],
+                            }),
+                        },
+                    },
+                })
+            );
+            const data = await createDocx({
+                section: {
+                    headers: {
+                        default: new docx.Header({
+                            children: [new docx.Paragraph("Surname / Title")],
+                        }),
+                    },
+                },
+            });
+
+            const result = await uut.applyDocxTemplate(data, template);
+
+            const zip = await JSZip.loadAsync(result);
+            const headers = await Promise.all(
+                zip
+                    .file(/^word\/header\d*\.xml$/)
+                    .map((file) => file.async("string"))
+            );
+            expect(headers.join()).to.contain("Agency header");
+            expect(headers.join()).to.not.contain("Surname / Title");
+            expect(await readPart(result, "word/document.xml")).to.contain(
+                "<w:footerReference"
+            );
+            expect(
+                await readPart(result, "word/_rels/document.xml.rels")
+            ).to.contain('Target="templateFooter.xml"');
+            expect(
+                await readPart(result, "word/templateFooter.xml")
+            ).to.contain("Agency footer");
+        });
+    });
+});
@@ -0,0 +1,212 @@
+import { expect } from "chai";
+import "mocha";
+
+import * as uut from "../profiles";
+
+describe("Profiles", () => {
+    describe("Find Profile", () => {
+        it("should find a built-in profile by name", () => {
+            // No arrange
+
+            const result = uut.findProfile("Shunn modern", []);
+
+            expect(result).to.equal(uut.SHUNN_MODERN_PROFILE);
+        });
+
+        it("should find a profile regardless of case", () => {
+            const profile = { ...uut.SHUNN_MODERN_PROFILE, name: "Courier" };
+
+            const result = uut.findProfile("courier", [profile]);
+
+            expect(result).to.equal(profile);
+        });
+
+        it("should prefer a user profile over a built-in one with the same name", () => {
+            const profile = { ...uut.SHUNN_MODERN_PROFILE, font: "Courier" };
+
+            const result = uut.findProfile("Shunn modern", [profile]);
+
+            expect(result).to.equal(profile);
+        });
+
+        it("should return undefined for an unknown profile", () => {
+            // No arrange
+
+            const result = uut.findProfile("Nope", []);
+
+            expect(result).to.be.undefined;
+        });
+    });
+
+    describe("Normalize Profile", () => {
+        it("should fill in missing values from the default profile", () => {
+            // No arrange
+
+            const result = uut.normalizeProfile({
+                name: "Mine",
+                font: "Courier",
+            });
+
+            expect(result).to.eql({
+                ...uut.SHUNN_MODERN_PROFILE,
+                name: "Mine",
+                font: "Courier",
+            });
+        });
+
+        it("should replace invalid numbers and paper sizes with the default profile's", () => {
+            // No arrange
+
+            const result = uut.normalizeProfile({
+                name: "Mine",
+                fontSize: "big" as unknown as number,
+                margin: -1,
+                paperSize: "legal" as uut.PaperSizeType,
+            });
+
+            expect(result.fontSize).to.equal(12);
+            expect(result.margin).to.equal(1);
+            expect(result.paperSize).to.equal(uut.PaperSize.Letter);
+        });
+
+        it("should replace a zero font size or line spacing but keep a zero margin or indent", () => {
+            // No arrange
+
+            const result = uut.normalizeProfile({
+                name: "Mine",
+                fontSize: 0,
+                lineSpacing: 0,
+                margin: 0,
+                indent: 0,
+            });
+
+            expect(result.fontSize).to.equal(12);
+            expect(result.lineSpacing).to.equal(
+                uut.SHUNN_MODERN_PROFILE.lineSpacing
+            );
+            expect(result.margin).to.equal(0);
+            expect(result.indent).to.equal(0);
+        });
+
+        it("should put front matter lines under the word count in profiles saved without a placement", () => {
+            // No arrange
+
+            const result = uut.normalizeProfile({ name: "Mine" });
+
+            expect(result.frontMatterPlacement).to.equal(
+                uut.FrontMatterPlacement.Table
+            );
+        });
+
+        it("should export footnotes as footnotes in profiles saved without a note style", () => {
+            // No arrange
+
+            const result = uut.normalizeProfile({ name: "Mine" });
+
+            expect(result.notes).to.equal(uut.NoteStyle.Footnotes);
+        });
+
+        it("should control pagination in profiles saved without the setting", () => {
+            // No arrange
+
+            const result = uut.normalizeProfile({ name: "Mine" });
+
+            expect(result.paginationControl).to.be.true;
+        });
+
+        it("should use no template in profiles saved without one", () => {
+            // No arrange
+
+            const result = uut.normalizeProfile({
+                name: "Mine",
+                // @ts-expect-error - Hand-edited settings can have any type.
+                template: 42,
+            });
+
+            expect(result.template).to.equal("");
+        });
+
+        it("should give profiles saved without an anonymous header the default one", () => {
+            // No arrange
+
+            const result = uut.normalizeProfile({
+                name: "Mine",
+                header: "{surname} / {title} / {page}",
+            });
+
+            expect(result.header).to.equal("{surname} / {title} / {page}");
+            expect(result.anonymousHeader).to.equal("{shortTitle} / {page}");
+        });
+    });
+
+    describe("Profile Units", () => {
+        it("should convert line spacing to 240ths of a line", () => {
+            const profile = { ...uut.SHUNN_MODERN_PROFILE, lineSpacing: 1.5 };
+
+            const result = uut.profileLineSpacing(profile);
+
+            expect(result).to.equal(360);
+        });
+
+        it("should convert the indent to twips", () => {
+            // No arrange
+
+            const result = uut.profileIndent(uut.SHUNN_MODERN_PROFILE);
+
+            expect(result).to.equal(720);
+        });
+
+        it("should give the page size of A4 paper in twips", () => {
+            const profile = {
+                ...uut.SHUNN_MODERN_PROFILE,
+                paperSize: uut.PaperSize.A4,
+            };
+
+            const result = uut.profilePageSize(profile);
+
+            expect(result).to.eql({ width: 11906, height: 16838 });
+        });
+    });
+
+    describe("Expand Header Pattern", () => {
+        it("should replace tokens with their values", () => {
+            // No arrange
+
+            const result = uut.expandHeaderPattern(
+                "{surname} / {title} / {page}",
+                { surname: "Simons", title: "Story" }
+            );
+
+            expect(result).to.eql(["Simons / Story / ", uut.HEADER_PAGE_TOKEN]);
+        });
+
+        it("should remove undefined tokens along with their separators", () => {
+            // No arrange
+
+            const result = uut.expandHeaderPattern(
+                "{surname} / {title} / {page}",
+                { surname: undefined, title: "Story" }
+            );
+
+            expect(result).to.eql(["Story / ", uut.HEADER_PAGE_TOKEN]);
+        });
+
+        it("should split text around page numbers", () => {
+            // No arrange
+
+            const result = uut.expandHeaderPattern("{title} - {page} -", {
+                title: "Story",
+            });
+
+            expect(result).to.eql(["Story - ", uut.HEADER_PAGE_TOKEN, " -"]);
+        });
+
+        it("should leave unknown tokens alone", () => {
+            // No arrange
+
+            const result = uut.expandHeaderPattern("{nope} {page}", {});
+
+            expect(result).to.eql(["{nope} ", uut.HEADER_PAGE_TOKEN]);
+        });
+    });
+});
@@ -0,0 +1,163 @@
+import { expect } from "chai";
+import "mocha";
+
+import * as uut from "../properties";
+
+describe("Properties", () => {
+    describe("Parse Metadata Property", () => {
+        it("should accept text", () => {
+            // No arrange
+
+            const result = uut.parseMetadataProperty("title", "Story Title");
+
+            expect(result).to.eql({ value: "Story Title" });
+        });
+
+        it("should turn a number into text for a text property", () => {
+            // No arrange
+
+            const result = uut.parseMetadataProperty("title", 1984);
+
+            expect(result).to.eql({ value: "1984" });
+        });
+
+        it("should reject a list for a text property", () => {
+            // No arrange
+
+            const result = uut.parseMetadataProperty("author", ["A", "B"]);
+
+            expect(result).to.eql({ problem: "should be text, not a list" });
+        });
+
+        it("should reject blank text", () => {
+            // No arrange
+
+            const result = uut.parseMetadataProperty("contact", "  ");
+
+            expect(result).to.eql({ problem: "is blank" });
+        });
+
+        it("should accept a word count with thousands separators", () => {
+            // No arrange
+
+            const result = uut.parseMetadataProperty("wordcount", "4,500");
+
+            expect(result).to.eql({ value: 4500 });
+        });
+
+        it("should reject a word count that isn't a whole number", () => {
+            // No arrange
+
+            const result = uut.parseMetadataProperty("wordcount", 12.5);
+
+            expect(result).to.eql({ problem: "isn't a number" });
+        });
+
+        it("should accept true or false, including as text", () => {
+            // No arrange
+
+            const results = [
+                uut.parseMetadataProperty("anonymous", true),
+                uut.parseMetadataProperty("anonymous", "False"),
+            ];
+
+            expect(results).to.eql([{ value: true }, { value: false }]);
+        });
+
+        it("should reject anything else for a true or false property", () => {
+            // No arrange
+
+            const result = uut.parseMetadataProperty("anonymous", "yes");
+
+            expect(result).to.eql({
+                problem: "should be true or false, not text",
+            });
+        });
+
+        it("should accept a list or a single piece of text for a list property", () => {
+            // No arrange
+
+            const results = [
+                uut.parseMetadataProperty("rights", [
+                    "First North American Serial Rights",
+                    "",
+                ]),
+                uut.parseMetadataProperty("contentwarnings", "violence"),
+            ];
+
+            expect(results).to.eql([
+                { value: ["First North American Serial Rights"] },
+                { value: ["violence"] },
+            ]);
+        });
+
+        it("should reject a list property with items that aren't text", () => {
+            // No arrange
+
+            const result = uut.parseMetadataProperty("contentwarnings", [
+                { violence: true },
+            ]);
+
+            expect(result).to.eql({ problem: "should be a list of text" });
+        });
+
+        it("should split tags given as text and remove their number signs", () => {
+            // No arrange
+
+            const result = uut.parseMetadataProperty("tags", "#sf, fantasy");
+
+            expect(result).to.eql({ value: ["sf", "fantasy"] });
+        });
+
+        it("should accept a language tag", () => {
+            // No arrange
+
+            const result = uut.parseMetadataProperty("lang", "en-US ");
+
+            expect(result).to.eql({ value: "en-US" });
+        });
+
+        it("should reject text that isn't a language tag", () => {
+            // No arrange
+
+            const result = uut.parseMetadataProperty("lang", "English (US)");
+
+            expect(result).to.eql({
+                problem: "isn't a language tag, such as en-US or ja",
+            });
+        });
+
+        it("should treat an end marker of false as no end marker", () => {
+            // No arrange
+
+            const result = uut.parseMetadataProperty("endmarker", false);
+
+            expect(result).to.eql({ value: "" });
+        });
+
+        it("should turn document properties' values into text", () => {
+            // No arrange
+
+            const result = uut.parseMetadataProperty("docproperties", {
+                Market: "Analog",
+                Round: 2,
+            });
+
+            expect(result).to.eql({ value: { Market: "Analog", Round: "2" } });
+        });
+
+        it("should name document properties whose values aren't text", () => {
+            // No arrange
+
+            const result = uut.parseMetadataProperty("docproperties", {
+                Market: "Analog",
+                Editors: ["A", "B"],
+            });
+
+            expect(result).to.eql({
+                problem:
+                    "has values that aren't text, numbers or true or false: Editors",
+            });
+        });
+    });
+});
@@ -47,4 +47,222 @@ describe("Utilities", () => {
             );
         });
     });
+
+    describe("Natural Compare", () => {
+        it("should sort numbers in names by their value", () => {
+            // No arrange
+
+            const result = ["10 - Climax", "2 - Arrival", "1 - Start"].sort(
+                uut.naturalCompare
+            );
+
+            expect(result).to.eql(["1 - Start", "2 - Arrival", "10 - Climax"]);
+        });
+
+        it("should ignore case", () => {
+            // No arrange
+
+            const result = uut.naturalCompare("arrival", "Arrival");
+
+            expect(result).to.equal(0);
+        });
+    });
+
+    describe("Compare By Order", () => {
+        it("should put items with an order first, smallest first", () => {
+            // No arrange
+
+            const result = [
+                { name: "a" },
+                { name: "b", order: 2 },
+                { name: "c", order: 1 },
+            ].sort(uut.compareByOrder);
+
+            expect(result.map((item) => item.name)).to.eql(["c", "b", "a"]);
+        });
+
+        it("should sort items with the same order by name", () => {
+            // No arrange
+
+            const result = [
+                { name: "10 - Climax", order: 1 },
+                { name: "2 - Arrival", order: 1 },
+            ].sort(uut.compareByOrder);
+
+            expect(result.map((item) => item.name)).to.eql([
+                "2 - Arrival",
+                "10 - Climax",
+            ]);
+        });
+    });
+
+    describe("Parse Order", () => {
+        it("should accept numbers and numeric strings", () => {
+            // No arrange
+
+            const result = [3, "2.5", " 7 "].map(uut.parseOrder);
+
+            expect(result).to.eql([3, 2.5, 7]);
+        });
+
+        it("should reject values that aren't numbers", () => {
+            // No arrange
+
+            const result = ["first", "", null, true, ["1"]].map(uut.parseOrder);
+
+            expect(result).to.eql([
+                undefined,
+                undefined,
+                undefined,
+                undefined,
+                undefined,
+            ]);
+        });
+    });
+
+    describe("Glob to RegExp", () => {
+        it("should match anything but a slash with a single star", () => {
+            const regExp = uut.globToRegExp("Notes/*.md");
+
+            const result = ["Notes/a.md", "Notes/b/c.md", "Other/a.md"].map(
+                (path) => regExp.test(path)
+            );
+
+            expect(result).to.eql([true, false, false]);
+        });
+
+        it("should match across slashes with a double star", () => {
+            const regExp = uut.globToRegExp("Notes/**");
+
+            const result = regExp.test("Notes/b/c.md");
+
+            expect(result).to.be.true;
+        });
+
+        it("should treat other characters literally", () => {
+            const regExp = uut.globToRegExp("Scene (draft?).md");
+
+            const result = [
+                "Scene (draft1).md",
+                "Scene (draft1)xmd",
+                "Scene draft1.md",
+            ].map((path) => regExp.test(path));
+
+            expect(result).to.eql([true, false, false]);
+        });
+    });
+
+    describe("Flatten Longform Scenes", () => {
+        it("should keep a flat list of scenes in order", () => {
+            // No arrange
+
+            const result = uut.flattenLongformScenes(["One", "Two"]);
+
+            expect(result).to.eql([
+                { name: "One", folders: [] },
+                { name: "Two", folders: [] },
+            ]);
+        });
+
+        it("should group indented scenes under the scene before them", () => {
+            // No arrange
+
+            const result = uut.flattenLongformScenes([
+                "Chapter 1",
+                ["Scene 1", "Scene 2"],
+                "Chapter 2",
+                ["Scene 3"],
+            ]);
+
+            expect(result).to.eql([
+                { name: "Chapter 1", folders: ["Chapter 1"] },
+                { name: "Scene 1", folders: ["Chapter 1"] },
+                { name: "Scene 2", folders: ["Chapter 1"] },
+                { name: "Chapter 2", folders: ["Chapter 2"] },
+                { name: "Scene 3", folders: ["Chapter 2"] },
+            ]);
+        });
+
+        it("should handle more than one level of indentation", () => {
+            // No arrange
+
+            const result = uut.flattenLongformScenes([
+                "Part 1",
+                ["Chapter 1", ["Scene 1"]],
+            ]);
+
+            expect(result).to.eql([
+                { name: "Part 1", folders: ["Part 1"] },
+                { name: "Chapter 1", folders: ["Part 1", "Chapter 1"] },
+                { name: "Scene 1", folders: ["Part 1", "Chapter 1"] },
+            ]);
+        });
+
+        it("should return nothing for a scene list that isn't a list", () => {
+            // No arrange
+
+            const result = uut.flattenLongformScenes("Scene 1");
+
+            expect(result).to.be.empty;
+        });
+    });
+
+    describe("Find Story Folder Index", () => {
+        it("should stay in a story folder without marker notes", () => {
+            // No arrange
+
+            const result = uut.findStoryFolderIndex([
+                { hasIndex: false },
+                { hasIndex: false },
+            ]);
+
+            expect(result).to.equal(0);
+        });
+
+        it("should not climb to a collection whose metadata note only sets shared properties", () => {
+            // No arrange
+
+            const result = uut.findStoryFolderIndex([
+                { hasIndex: false },
+                { hasIndex: false, metadata: { author: "Pen Name" } },
+            ]);
+
+            expect(result).to.equal(0);
+        });
+
+        it("should climb from a chapter to a book whose metadata note sets its title", () => {
+            // No arrange
+
+            const result = uut.findStoryFolderIndex([
+                { hasIndex: false },
+                { hasIndex: false, metadata: { title: "The Book" } },
+                { hasIndex: false, metadata: { author: "Pen Name" } },
+            ]);
+
+            expect(result).to.equal(1);
+        });
+
+        it("should climb from a chapter to a book with an index note", () => {
+            // No arrange
+
+            const result = uut.findStoryFolderIndex([
+                { hasIndex: false },
+                { hasIndex: false },
+                { hasIndex: true },
+            ]);
+
+            expect(result).to.equal(2);
+        });
+
+        it("should choose the nearest marked folder", () => {
+            // No arrange
+
+            const result = uut.findStoryFolderIndex([
+                { hasIndex: false, metadata: { wordcount: 5000 } },
+                { hasIndex: true },
+            ]);
+
+            expect(result).to.equal(0);
+        });
+    });
 });
@@ -0,0 +1,336 @@
+import { expect } from "chai";
+import "mocha";
+
+import { Root } from "mdast";
+
+import * as uut from "../wordCount";
+
+describe("Word Count", () => {
+    describe("Count Words In Text", () => {
+        it("should count hyphenated words as one word by default", () => {
+            // No arrange
+
+            const result = uut.countWordsInText("Her well-being mattered.");
+
+            expect(result).to.equal(3);
+        });
+
+        it("should count hyphenated words as separate words when asked", () => {
+            const options = {
+                ...uut.DEFAULT_WORD_COUNT_OPTIONS,
+                hyphenatedWords: uut.HyphenatedWords.Separate,
+            };
+
+            const result = uut.countWordsInText(
+                "Her well-being mattered.",
+                options
+            );
+
+            expect(result).to.equal(4);
+        });
+
+        it("should split words joined by em dashes by default", () => {
+            // No arrange
+
+            const result = uut.countWordsInText("Wait—no--stop. Now — go.");
+
+            expect(result).to.equal(5);
+        });
+
+        it("should count words joined by em dashes as one word when asked", () => {
+            const options = {
+                ...uut.DEFAULT_WORD_COUNT_OPTIONS,
+                splitOnEmDashes: false,
+            };
+
+            const result = uut.countWordsInText("Wait—no--stop.", options);
+
+            expect(result).to.equal(1);
+        });
+
+        it("should not count punctuation by itself as a word", () => {
+            // No arrange
+
+            const result = uut.countWordsInText("One - two ... three");
+
+            expect(result).to.equal(3);
+        });
+    });
+
+    describe("Count Words In Non-Space-Delimited Text", () => {
+        it("should split Japanese text into words", () => {
+            const options = { ...uut.DEFAULT_WORD_COUNT_OPTIONS, locale: "ja" };
+
+            const result = uut.countWordsInText("吾輩は猫である。", options);
+
+            expect(result).to.be.greaterThan(1);
+        });
+
+        it("should count Japanese and English words in the same text", () => {
+            const options = { ...uut.DEFAULT_WORD_COUNT_OPTIONS, locale: "ja" };
+
+            const result = uut.countWordsInText("猫 and dogs", options);
+
+            expect(result).to.equal(3);
+        });
+
+        it("should count characters other than whitespace", () => {
+            const options = {
+                ...uut.DEFAULT_WORD_COUNT_OPTIONS,
+                unit: uut.CountUnit.Characters,
+                locale: "ja",
+            };
+
+            const result = uut.countWordsInText("吾輩は 猫である。", options);
+
+            expect(result).to.equal(8);
+        });
+
+        it("should fall back to the default locale for an invalid language", () => {
+            const options = {
+                ...uut.DEFAULT_WORD_COUNT_OPTIONS,
+                locale: "not a language",
+            };
+
+            const result = uut.countWordsInText("猫", options);
+
+            expect(result).to.equal(1);
+        });
+    });
+
+    describe("Count Words", () => {
+        const tree: Root = {
+            type: "root",
+            children: [
+                {
+                    type: "heading",
+                    depth: 2,
+                    children: [
+                        { type: "text", value: "Chapter " },
+                        {
+                            type: "emphasis",
+                            children: [{ type: "text", value: "One" }],
+                        },
+                    ],
+                },
+                {
+                    type: "paragraph",
+                    children: [{ type: "text", value: "It began." }],
+                },
+            ],
+        };
+
+        it("should count headings by default", () => {
+            // No arrange
+
+            const result = uut.countWords(tree);
+
+            expect(result).to.equal(4);
+        });
+
+        it("should leave footnotes out when asked", () => {
+            const treeWithFootnote: Root = {
+                type: "root",
+                children: [
+                    ...tree.children,
+                    {
+                        type: "footnoteDefinition",
+                        identifier: "1",
+                        children: [
+                            {
+                                type: "paragraph",
+                                children: [{ type: "text", value: "A note." }],
+                            },
+                        ],
+                    },
+                ],
+            };
+            const options = {
+                ...uut.DEFAULT_WORD_COUNT_OPTIONS,
+                excludeFootnotes: true,
+            };
+
+            const result = uut.countWords(treeWithFootnote, options);
+
+            expect(result).to.equal(4);
+        });
+
+        it("should leave headings out when asked", () => {
+            const options = {
+                ...uut.DEFAULT_WORD_COUNT_OPTIONS,
+                excludeHeadings: true,
+            };
+
+            const result = uut.countWords(tree, options);
+
+            expect(result).to.equal(2);
+        });
+
+        it("should leave out the first line of formatted callouts", () => {
+            const treeWithCallout: Root = {
+                type: "root",
+                children: [
+                    {
+                        type: "blockquote",
+                        children: [
+                            {
+                                type: "paragraph",
+                                children: [
+                                    {
+                                        type: "text",
+                                        value: "[!epigraph] A Title\nAll happy families.",
+                                    },
+                                ],
+                            },
+                        ],
+                    },
+                    {
+                        type: "blockquote",
+                        children: [
+                            {
+                                type: "paragraph",
+                                children: [
+                                    { type: "text", value: "[!note] Aside" },
+                                ],
+                            },
+                        ],
+                    },
+                ],
+            };
+            const options = {
+                ...uut.DEFAULT_WORD_COUNT_OPTIONS,
+                formattedCallouts: ["epigraph"],
+            };
+
+            const result = uut.countWords(treeWithCallout, options);
+
+            expect(result).to.equal(5);
+        });
+
+        it("should only leave lower headings out when asked", () => {
+            const treeWithScene: Root = {
+                type: "root",
+                children: [
+                    ...tree.children,
+                    {
+                        type: "heading",
+                        depth: 3,
+                        children: [{ type: "text", value: "Scene title" }],
+                    },
+                ],
+            };
+            const options = {
+                ...uut.DEFAULT_WORD_COUNT_OPTIONS,
+                excludeLowerHeadings: true,
+            };
+
+            const result = uut.countWords(treeWithScene, options);
+
+            expect(result).to.equal(4);
+        });
+    });
+
+    describe("Describe Word Count", () => {
+        it("should give short stories' exact counts with Shunn rounding", () => {
+            // No arrange
+
+            const result = uut.describeWordCount(
+                712,
+                uut.WordCountRounding.Shunn
+            );
+
+            expect(result).to.equal("712 words");
+        });
+
+        it("should round longer stories to the nearest 100 with Shunn rounding", () => {
+            // No arrange
+
+            const result = uut.describeWordCount(
+                4449,
+                uut.WordCountRounding.Shunn
+            );
+
+            expect(result).to.equal(`about ${(4400).toLocaleString()} words`);
+        });
+
+        it("should round novels to the nearest 1,000 with Shunn rounding", () => {
+            // No arrange
+
+            const result = uut.describeWordCount(
+                400,
+                uut.WordCountRounding.Shunn,
+                true
+            );
+
+            expect(result).to.equal(`about ${(1000).toLocaleString()} words`);
+        });
+
+        it("should round to the nearest 500", () => {
+            // No arrange
+
+            const result = uut.describeWordCount(
+                4760,
+                uut.WordCountRounding.FiveHundred
+            );
+
+            expect(result).to.equal(`about ${(5000).toLocaleString()} words`);
+        });
+
+        it("should give exact counts of long stories", () => {
+            // No arrange
+
+            const result = uut.describeWordCount(
+                4449,
+                uut.WordCountRounding.Exact
+            );
+
+            expect(result).to.equal(`${(4449).toLocaleString()} words`);
+        });
+    });
+
+    describe("Describe Character Count", () => {
+        it("should describe character counts", () => {
+            // No arrange
+
+            const result = uut.describeWordCount(
+                6049,
+                uut.WordCountRounding.Hundred,
+                false,
+                uut.CountUnit.Characters
+            );
+
+            expect(result).to.equal(
+                `about ${(6000).toLocaleString()} characters`
+            );
+        });
+    });
+
+    describe("Describe Word Count Breakdown", () => {
+        it("should list the total and each note's count", () => {
+            // No arrange
+
+            const result = uut.describeWordCountBreakdown(
+                [
+                    { name: "Opening", count: 12 },
+                    { name: "Ending", count: 30 },
+                ],
+                42
+            );
+
+            expect(result).to.equal("Word count: 42\nOpening: 12\nEnding: 30");
+        });
+
+        it("should say when the total came from the wordcount property", () => {
+            // No arrange
+
+            const result = uut.describeWordCountBreakdown(
+                [{ name: "Opening", count: 12 }],
+                100
+            );
+
+            expect(result).to.equal(
+                "Word count: 100 (from the wordcount property; counted 12)\nOpening: 12"
+            );
+        });
+    });
+});
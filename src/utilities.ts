@@ -1,3 +1,5 @@
+import { STORY_PROPERTY_KEYS } from "./properties";
+
 /**
  * Turn a folder name into a docx filename.
  *
@@ -25,3 +27,181 @@ export function folderNameToDocxOutfileName(name: string): string {
     if (endIndex == 0) endIndex = 1; // Make sure we have at least one piece!
     return outFilenamePieces.slice(0, endIndex).join("-") + ".docx";
 }
+
+/**
+ * Compare two names so that numbers in them sort by their value, so
+ * "2 - Arrival" comes before "10 - Climax". Case is ignored.
+ *
+ * @param a First name.
+ * @param b Second name.
+ * @returns Negative if a comes first, positive if b comes first, zero if they're the same.
+ */
+export function naturalCompare(a: string, b: string): number {
+    return a.localeCompare(b, undefined, {
+        numeric: true,
+        sensitivity: "base",
+    });
+}
+
+/**
+ * Something that can be put in order by an `order` property.
+ */
+export interface Orderable {
+    /**
+     * Name to fall back on when ordering.
+     */
+    name: string;
+    /**
+     * Position, or undefined if it doesn't have one.
+     */
+    order?: number;
+}
+
+/**
+ * Compare two items by their order. Items with an order come before those
+ * without, and items with the same order (or none) are compared by name.
+ *
+ * @param a First item.
+ * @param b Second item.
+ * @returns Negative if a comes first, positive if b comes first, zero if they're the same.
+ */
+export function compareByOrder(a: Orderable, b: Orderable): number {
+    if (a.order !== undefined && b.order !== undefined && a.order !== b.order) {
+        return a.order - b.order;
+    }
+    if (a.order !== undefined && b.order === undefined) return -1;
+    if (a.order === undefined && b.order !== undefined) return 1;
+    return naturalCompare(a.name, b.name);
+}
+
+/**
+ * Parse an `order` property's value.
+ *
+ * @param value Property's value.
+ * @returns The order, or undefined if the value isn't a number.
+ */
+export function parseOrder(value: unknown): number | undefined {
+    const order =
+        typeof value === "number"
+            ? value
+            : typeof value === "string" && value.trim() !== ""
+              ? Number(value)
+              : NaN;
+    return Number.isFinite(order) ? order : undefined;
+}
+
+/**
+ * Turn a glob pattern into a regular expression.
+ *
+ * `*` matches anything but a `/`, `**` matches anything, and `?` matches
+ * any one character but a `/`.
+ *
+ * @param pattern Glob pattern, such as `Notes/*` or `* (draft)`.
+ * @returns The regular expression, which must match the whole string.
+ */
+export function globToRegExp(pattern: string): RegExp {
+    const source = pattern
+        .split(/(\*\*|\*|\?)/)
+        .map((piece) => {
+            if (piece === "**") return ".*";
+            if (piece === "*") return "[^/]*";
+            if (piece === "?") return "[^/]";
+            return piece.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+        })
+        .join("");
+    return new RegExp(`^${source}$`);
+}
+
+/**
+ * A scene in a Longform project.
+ */
+export interface LongformScene {
+    /**
+     * Scene's name, which is the name of its note without the extension.
+     */
+    name: string;
+    /**
+     * Names of the scenes the scene is indented under, outermost first,
+     * plus the scene's own name if other scenes are indented under it.
+     */
+    folders: string[];
+}
+
+/**
+ * Flatten a Longform project's scene list.
+ *
+ * Longform stores indentation as nested lists: a list that follows a scene
+ * holds the scenes indented under it. Scenes with other scenes indented
+ * under them are treated like folders, so that they become parts and
+ * chapters in the manuscript.
+ *
+ * @param scenes The `scenes` list from the Longform index note's properties.
+ * @param parents Names of the scenes that the list is indented under (used when recursing).
+ * @returns The scenes in order.
+ */
+export function flattenLongformScenes(
+    scenes: unknown,
+    parents: string[] = []
+): LongformScene[] {
+    const flattened: LongformScene[] = [];
+    if (!Array.isArray(scenes)) return flattened;
+
+    scenes.forEach((item: unknown, ndx) => {
+        if (typeof item === "string") {
+            const hasChildren = Array.isArray(scenes[ndx + 1]);
+            flattened.push({
+                name: item,
+                folders: hasChildren ? [...parents, item] : parents,
+            });
+        } else if (Array.isArray(item)) {
+            const parent: unknown = scenes[ndx - 1];
+            flattened.push(
+                ...flattenLongformScenes(
+                    item,
+                    typeof parent === "string" ? [...parents, parent] : parents
+                )
+            );
+        }
+    });
+    return flattened;
+}
+
+/**
+ * Notes in a folder that can mark it as a story folder.
+ */
+export interface StoryFolderMarkers {
+    /**
+     * Whether the folder has a Longform index note or an index note.
+     */
+    hasIndex: boolean;
+    /**
+     * Properties of the folder's metadata note, or undefined if it doesn't
+     * have one.
+     */
+    metadata?: Record<string, unknown> | null;
+}
+
+/**
+ * Choose which of the folders around a note is its story folder, so that a
+ * note in a chapter's subfolder belongs to the whole book.
+ *
+ * A folder with an index note is a story folder, and so is a folder whose
+ * metadata note sets a single story's properties, such as its title. Other
+ * metadata notes don't count, as a collection of stories can have one to
+ * set a shared pen name.
+ *
+ * @param folders Markers of the note's folder and the folders around it,
+ *                innermost first.
+ * @returns Index of the story folder, or 0 (the note's own folder) if none
+ *          of the folders is marked as one.
+ */
+export function findStoryFolderIndex(folders: StoryFolderMarkers[]): number {
+    const ndx = folders.findIndex(
+        ({ hasIndex, metadata }) =>
+            hasIndex ||
+            STORY_PROPERTY_KEYS.some(
+                (k) => metadata?.[k] !== undefined && metadata?.[k] !== null
+            )
+    );
+    return Math.max(ndx, 0);
+}
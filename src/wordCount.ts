@@ -0,0 +1,326 @@
+import { Root, Text } from "mdast";
+import { SKIP, visit } from "unist-util-visit";
+
+/**
+ * How to count hyphenated words such as "well-being".
+ */
+export const HyphenatedWords = {
+    /**
+     * Count a hyphenated word as one word.
+     */
+    One: "one",
+    /**
+     * Count each part of a hyphenated word as its own word.
+     */
+    Separate: "separate",
+} as const;
+
+export type HyphenatedWordsType =
+    (typeof HyphenatedWords)[keyof typeof HyphenatedWords];
+
+/**
+ * How to round the word count shown in the manuscript.
+ */
+export const WordCountRounding = {
+    /**
+     * Shunn's rules: exact for stories under 1,000 words, otherwise the
+     * nearest 100, and the nearest 1,000 for novels.
+     */
+    Shunn: "shunn",
+    /**
+     * Don't round.
+     */
+    Exact: "exact",
+    /**
+     * Round to the nearest 100.
+     */
+    Hundred: "100",
+    /**
+     * Round to the nearest 500.
+     */
+    FiveHundred: "500",
+    /**
+     * Round to the nearest 1,000.
+     */
+    Thousand: "1000",
+} as const;
+
+export type WordCountRoundingType =
+    (typeof WordCountRounding)[keyof typeof WordCountRounding];
+
+/**
+ * What to count.
+ */
+export const CountUnit = {
+    /**
+     * Count words.
+     */
+    Words: "words",
+    /**
+     * Count characters other than whitespace, as markets for languages
+     * like Japanese and Chinese expect.
+     */
+    Characters: "characters",
+} as const;
+
+export type CountUnitType = (typeof CountUnit)[keyof typeof CountUnit];
+
+/**
+ * Characters from scripts that don't put spaces between words.
+ */
+const unspacedScriptRegExp =
+    /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}\p{Script=Lao}\p{Script=Khmer}\p{Script=Myanmar}]/u;
+
+/**
+ * Segmenters we've already created, keyed by locale and granularity.
+ */
+const segmenters = new Map<string, Intl.Segmenter>();
+
+/**
+ * Get a segmenter, reusing one we've already created if we can.
+ * @param locale Locale to segment for, or undefined for the default locale.
+ * @param granularity Whether to segment into words or characters.
+ * @returns The segmenter.
+ */
+function getSegmenter(
+    locale: string | undefined,
+    granularity: "word" | "grapheme"
+): Intl.Segmenter {
+    const key = `${locale ?? ""}:${granularity}`;
+    let segmenter = segmenters.get(key);
+    if (segmenter === undefined) {
+        try {
+            segmenter = new Intl.Segmenter(locale, {
+                granularity: granularity,
+            });
+        } catch (e) {
+            // Fall back to the default locale if the language tag is invalid
+            if (!(e instanceof RangeError)) throw e;
+            segmenter = new Intl.Segmenter(undefined, {
+                granularity: granularity,
+            });
+        }
+        segmenters.set(key, segmenter);
+    }
+    return segmenter;
+}
+
+/**
+ * Rules for counting words.
+ */
+export interface WordCountOptions {
+    /**
+     * Whether to leave headings' words out of the count.
+     */
+    excludeHeadings: boolean;
+    /**
+     * Whether to leave out the words of headings below level 2, for when
+     * they're dropped from the manuscript.
+     */
+    excludeLowerHeadings: boolean;
+    /**
+     * Whether to leave footnotes' words out of the count.
+     */
+    excludeFootnotes: boolean;
+    /**
+     * Types of the callouts, such as `letter`, whose first line (the
+     * `[!letter]` marker and any title) is left out of the manuscript,
+     * so it isn't counted either.
+     */
+    formattedCallouts: readonly string[];
+    /**
+     * How to count hyphenated words.
+     */
+    hyphenatedWords: HyphenatedWordsType;
+    /**
+     * Whether words joined by an em dash (`—` or `--`) count as separate words.
+     */
+    splitOnEmDashes: boolean;
+    /**
+     * Whether to count words or characters.
+     */
+    unit: CountUnitType;
+    /**
+     * Language of the text as a BCP 47 tag, such as `ja`, or undefined
+     * for the default locale.
+     */
+    locale?: string;
+}
+
+export const DEFAULT_WORD_COUNT_OPTIONS: WordCountOptions = {
+    excludeHeadings: false,
+    excludeLowerHeadings: false,
+    excludeFootnotes: false,
+    formattedCallouts: [],
+    hyphenatedWords: HyphenatedWords.One,
+    splitOnEmDashes: true,
+    unit: CountUnit.Words,
+};
+
+/**
+ * Number of words in one of a manuscript's notes.
+ */
+export interface NoteWordCount {
+    /**
+     * Note's name.
+     */
+    name: string;
+    /**
+     * Number of words in the note.
+     */
+    count: number;
+}
+
+/**
+ * Count the words or characters in a piece of text.
+ *
+ * Text in scripts that don't put spaces between words, such as Japanese
+ * or Thai, is split into words using the locale's rules.
+ *
+ * @param text Text to count.
+ * @param options Counting rules.
+ * @returns Number of words or characters.
+ */
+export function countWordsInText(
+    text: string,
+    options: WordCountOptions = DEFAULT_WORD_COUNT_OPTIONS
+): number {
+    if (options.unit === CountUnit.Characters) {
+        const characters = getSegmenter(options.locale, "grapheme").segment(
+            text
+        );
+        return [...characters].filter((c) => !/^\s+$/.test(c.segment)).length;
+    }
+
+    if (options.splitOnEmDashes) {
+        text = text.replace(/—|--/g, " ");
+    }
+    if (options.hyphenatedWords === HyphenatedWords.Separate) {
+        text = text.replace(/(?<=[\p{L}\p{N}])-(?=[\p{L}\p{N}])/gu, " ");
+    }
+    let count = 0;
+    for (const word of text.split(/\s+/)) {
+        if (unspacedScriptRegExp.test(word)) {
+            const segments = getSegmenter(options.locale, "word").segment(word);
+            count += [...segments].filter((s) => s.isWordLike).length;
+        } else if (/[\p{L}\p{N}]/u.test(word)) {
+            // Only count pieces of text that have letters or numbers in them
+            ++count;
+        }
+    }
+    return count;
+}
+
+/**
+ * Matches a callout's first line, such as `[!letter]- From Mom`, capturing its type.
+ */
+export const calloutRegExp = /^\[!([^\]\s]+)\][-+]?[^\n]*(\n|$)/;
+
+/**
+ * Count the words or characters in a Markdown AST by visiting every text node.
+ *
+ * @param tree Markdown AST.
+ * @param options Counting rules.
+ * @returns Number of words or characters.
+ */
+export function countWords(
+    tree: Root,
+    options: WordCountOptions = DEFAULT_WORD_COUNT_OPTIONS
+): number {
+    let count = 0;
+    // Callout markers at the start of text nodes, which aren't counted
+    const markerLengths = new Map<Text, number>();
+    visit(tree, (node) => {
+        if (node.type === "blockquote") {
+            const first = node.children[0];
+            const text =
+                first?.type === "paragraph" ? first.children[0] : undefined;
+            const match =
+                text?.type === "text" ? calloutRegExp.exec(text.value) : null;
+            if (
+                text?.type === "text" &&
+                match !== null &&
+                options.formattedCallouts.includes(match[1].toLowerCase())
+            ) {
+                markerLengths.set(text, match[0].length);
+            }
+        }
+        if (
+            node.type === "heading" &&
+            (options.excludeHeadings ||
+                (options.excludeLowerHeadings && node.depth > 2))
+        ) {
+            return SKIP;
+        }
+        if (node.type === "footnoteDefinition" && options.excludeFootnotes) {
+            return SKIP;
+        }
+        if (node.type === "text") {
+            count += countWordsInText(
+                node.value.slice(markerLengths.get(node) ?? 0),
+                options
+            );
+        }
+    });
+    return count;
+}
+
+/**
+ * Describe a word count for a manuscript's front matter, such as
+ * "about 4,500 words".
+ *
+ * @param count Number of words or characters.
+ * @param rounding How to round the count.
+ * @param isNovel Whether the manuscript is a novel, for Shunn's rules.
+ * @param unit Whether the count is of words or characters.
+ * @returns The description.
+ */
+export function describeWordCount(
+    count: number,
+    rounding: WordCountRoundingType,
+    isNovel = false,
+    unit: CountUnitType = CountUnit.Words
+): string {
+    const unitName = unit === CountUnit.Characters ? "character" : "word";
+    let nearest = 1;
+    if (rounding === WordCountRounding.Shunn) {
+        nearest = isNovel ? 1000 : count < 1000 ? 1 : 100;
+    } else if (rounding !== WordCountRounding.Exact) {
+        nearest = Number(rounding);
+    }
+
+    if (nearest === 1) {
+        return `${count.toLocaleString()} ${unitName}${count === 1 ? "" : "s"}`;
+    }
+    // Never round a short manuscript down to nothing
+    const rounded = Math.max(Math.round(count / nearest), 1) * nearest;
+    return `about ${rounded.toLocaleString()} ${unitName}s`;
+}
+
+/**
+ * Describe a manuscript's word count note by note, for showing to the user.
+ *
+ * @param wordCounts Number of words in each note.
+ * @param total Manuscript's word count, which may have been set by a property
+ *              rather than counted.
+ * @param unit Whether the counts are of words or characters.
+ * @returns The description, one line per note after the total.
+ */
+export function describeWordCountBreakdown(
+    wordCounts: NoteWordCount[],
+    total: number,
+    unit: CountUnitType = CountUnit.Words
+): string {
+    const counted = wordCounts.reduce((sum, note) => sum + note.count, 0);
+    const title =
+        unit === CountUnit.Characters ? "Character count" : "Word count";
+    const lines = [
+        counted === total
+            ? `${title}: ${total.toLocaleString()}`
+            : `${title}: ${total.toLocaleString()} (from the wordcount property; counted ${counted.toLocaleString()})`,
+        ...wordCounts.map(
+            (note) => `${note.name}: ${note.count.toLocaleString()}`
+        ),
+    ];
+    return lines.join("\n");
+}
@@ -0,0 +1,95 @@
+import { ItemView, WorkspaceLeaf } from "obsidian";
+
+import { CountUnit, CountUnitType, NoteWordCount } from "./wordCount";
+
+export const WORD_COUNT_VIEW_TYPE = "manuscriptum-word-count";
+
+/**
+ * Word count of a story folder.
+ */
+export interface StoryWordCount {
+    /**
+     * Story's title.
+     */
+    title: string;
+    /**
+     * Story's word count, which may have been set by a property rather than counted.
+     */
+    total: number;
+    /**
+     * Word count as the manuscript gives it, such as "about 4,500 words".
+     */
+    description: string;
+    /**
+     * Number of words in each note, in manuscript order.
+     */
+    wordCounts: NoteWordCount[];
+    /**
+     * Whether the counts are of words or characters.
+     */
+    unit: CountUnitType;
+}
+
+/**
+ * Side panel view that shows the word count of the active note's story.
+ */
+export class WordCountView extends ItemView {
+    private storyCount: StoryWordCount | undefined;
+
+    constructor(leaf: WorkspaceLeaf) {
+        super(leaf);
+    }
+
+    getViewType(): string {
+        return WORD_COUNT_VIEW_TYPE;
+    }
+
+    getDisplayText(): string {
+        return "Manuscript word count";
+    }
+
+    getIcon(): string {
+        return "book-text"; // Lucide icon name
+    }
+
+    async onOpen() {
+        this.render();
+    }
+
+    /**
+     * Show a new word count.
+     * @param storyCount Word count to show, or undefined if there's no story to count.
+     */
+    setStoryCount(storyCount: StoryWordCount | undefined) {
+        this.storyCount = storyCount;
+        this.render();
+    }
+
+    private render() {
+        const container = this.contentEl;
+        container.empty();
+
+        if (this.storyCount === undefined) {
+            container.createEl("p", {
+                text: "Open a note in a story folder to see its word count.",
+                cls: "manuscriptum_word_count_empty",
+            });
+            return;
+        }
+
+        const { title, total, description, wordCounts, unit } = this.storyCount;
+        const unitName = unit === CountUnit.Characters ? "characters" : "words";
+        container.createEl("h4", { text: title });
+        container.createEl("p", {
+            text: `${total.toLocaleString()} ${unitName} (${description} in the manuscript)`,
+        });
+        const table = container.createEl("table", {
+            cls: "manuscriptum_word_count_table",
+        });
+        for (const note of wordCounts) {
+            const row = table.createEl("tr");
+            row.createEl("td", { text: note.name.replace(/\.md$/, "") });
+            row.createEl("td", { text: note.count.toLocaleString() });
+        }
+    }
+}